@@ -25,7 +25,8 @@ import { AppConfig, BlogPost, AppStep, SitemapState } from './types';
 import { ConfigPanel } from './components/ConfigPanel';
 import { SitemapScanner } from './components/SitemapScanner';
 import { LandingPage } from './components/LandingPage';
-import { IntelligenceCache } from './utils';
+import { IntelligenceCache, isPriceRefreshDue, refreshPlacedProducts } from './utils';
+import Toastify from 'toastify-js';
 
 // Lazy load the PostEditor for better initial load performance
 const PostEditor = lazy(() => 
@@ -42,11 +43,14 @@ const STORAGE_KEYS = {
   SITEMAP_STATE: 'amzwp_sitemap_state_v4',
 } as const;
 
+// How often the app checks whether a scheduled price refresh is due
+const PRICE_REFRESH_CHECK_MS = 15 * 60 * 1000;
+
 const DEFAULT_CONFIG: AppConfig = {
   amazonTag: '',
   amazonAccessKey: '',
   amazonSecretKey: '',
-  amazonRegion: 'us-east-1',
+  amazonRegion: '', // Follows the marketplace unless a custom PA-API host is set
   wpUrl: '',
   wpUser: '',
   wpAppPassword: '',
@@ -57,6 +61,10 @@ const DEFAULT_CONFIG: AppConfig = {
   enableStickyBar: true,
   aiProvider: 'gemini',
   aiModel: 'gemini-2.0-flash',
+  aiApiKeys: {},
+  aiSessionBudgetUsd: 0,
+  aiClassifyOnAudit: false,
+  priceRefreshHours: 0,
 };
 
 // ============================================================================
@@ -261,6 +269,29 @@ const App: React.FC = () => {
     IntelligenceCache.cleanup();
   }, []);
 
+  // ========== SCHEDULED PRICE REFRESH ==========
+
+  useEffect(() => {
+    if (!hasEntered || !config.priceRefreshHours) return;
+
+    const check = () => {
+      if (!isPriceRefreshDue(config)) return;
+      refreshPlacedProducts(config)
+        .then(report => {
+          if (report.changes.length === 0 && report.issues.length === 0) return;
+          Toastify({
+            text: `Price refresh: ${report.changes.length} changes, ${report.boxesUpdated} boxes updated${report.issues.length ? `, ${report.issues.length} issues` : ''}`,
+            backgroundColor: report.issues.length ? "#f59e0b" : "#10b981",
+          }).showToast();
+        })
+        .catch(error => console.warn('[App] Scheduled price refresh failed:', error));
+    };
+
+    check();
+    const timer = window.setInterval(check, PRICE_REFRESH_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [hasEntered, config]);
+
   // ========== RENDER ==========
 
   // Landing page
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { ProductDetails, CarouselData } from '../types';
+import { getBoxLocale } from '../utils';
 
 interface CarouselPreviewProps {
   data: CarouselData;
@@ -32,28 +33,32 @@ export const CarouselPreview: React.FC<CarouselPreviewProps> = ({ data, products
                 key={p.id}
                 className="w-[280px] bg-slate-50/50 border border-slate-100 rounded-[32px] p-6 flex flex-col items-center text-center transition-all duration-500 hover:-translate-y-2 hover:bg-white hover:shadow-xl group"
               >
-                <div className="h-40 w-full flex items-center justify-center mb-6">
-                  <img 
-                    src={p.imageUrl} 
-                    alt={p.title}
-                    className="max-h-full max-w-full object-contain mix-blend-multiply transition-transform duration-700 group-hover:scale-110"
-                  />
-                </div>
+                {p.imageUrl && (
+                  <div className="h-40 w-full flex items-center justify-center mb-6">
+                    <img 
+                      src={p.imageUrl} 
+                      alt={p.title}
+                      className="max-h-full max-w-full object-contain mix-blend-multiply transition-transform duration-700 group-hover:scale-110"
+                    />
+                  </div>
+                )}
                 
                 <h3 className="text-sm font-black text-slate-900 line-clamp-2 mb-3 h-10">
                   {p.title}
                 </h3>
                 
-                <div className="flex text-amber-400 text-xs mb-4">
-                  {'★'.repeat(Math.round(p.rating))}{'☆'.repeat(5 - Math.round(p.rating))}
-                </div>
+                {p.rating ? (
+                  <div className="flex text-amber-400 text-xs mb-4">
+                    {'★'.repeat(Math.round(p.rating))}{'☆'.repeat(5 - Math.round(p.rating))}
+                  </div>
+                ) : null}
                 
                 <div className="text-2xl font-black text-slate-900 mb-6">
                   {p.price}
                 </div>
                 
                 <button className="w-full py-3 bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest rounded-xl hover:bg-blue-600 transition-all">
-                  View Deal
+                  {getBoxLocale(data.language).viewDeal}
                 </button>
               </div>
             ))}
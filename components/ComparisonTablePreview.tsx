@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { ComparisonData, ProductDetails } from '../types';
+import { getBoxLocale, buildAmazonLink } from '../utils';
 
 interface ComparisonTablePreviewProps {
   data: ComparisonData;
@@ -10,6 +11,7 @@ interface ComparisonTablePreviewProps {
 
 export const ComparisonTablePreview: React.FC<ComparisonTablePreviewProps> = ({ data, products, affiliateTag }) => {
   const finalTag = (affiliateTag || "tag-20").trim();
+  const t = getBoxLocale(data.language);
   const sortedProducts = data.productIds
     .map(id => products.find(p => p.id === id))
     .filter(Boolean) as ProductDetails[];
@@ -37,22 +39,24 @@ export const ComparisonTablePreview: React.FC<ComparisonTablePreviewProps> = ({
                       <div key={p.id} className="p-6 md:p-8 flex flex-col items-center text-center relative hover:bg-slate-50 transition-colors group">
                           {idx === 0 && (
                               <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-blue-500 text-white text-[9px] font-black uppercase tracking-widest px-3 py-1 rounded-full shadow-lg z-10">
-                                  Top Pick
+                                  {t.topPick}
+                              </div>
+                          )}
+                          {p.imageUrl && (
+                              <div className="h-32 md:h-40 w-full flex items-center justify-center mb-6">
+                                  <img src={p.imageUrl} className="max-h-full max-w-full object-contain drop-shadow-lg group-hover:scale-110 transition-transform duration-300" alt={p.title} />
                               </div>
                           )}
-                          <div className="h-32 md:h-40 w-full flex items-center justify-center mb-6">
-                              <img src={p.imageUrl} className="max-h-full max-w-full object-contain drop-shadow-lg group-hover:scale-110 transition-transform duration-300" alt={p.title} />
-                          </div>
                           <h4 className="text-sm md:text-base font-black text-slate-900 leading-tight mb-2 line-clamp-2 min-h-[40px]">{p.title}</h4>
-                          <div className="text-yellow-400 text-xs md:text-sm mb-4">{'★'.repeat(Math.round(p.rating))}</div>
+                          {p.rating ? <div className="text-yellow-400 text-xs md:text-sm mb-4">{'★'.repeat(Math.round(p.rating))}</div> : null}
                           <div className="text-2xl font-black text-slate-900 mb-4 tracking-tighter">{p.price}</div>
                           <a 
-                            href={`https://www.amazon.com/dp/${p.asin}?tag=${finalTag}`}
+                            href={buildAmazonLink(p.asin, finalTag, p.marketplace)}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="w-full bg-slate-900 text-white py-3 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-blue-600 transition-colors shadow-lg"
                           >
-                            Check Price
+                            {t.checkPrice}
                           </a>
                       </div>
                   ))}
@@ -1,6 +1,10 @@
 import React, { useState } from 'react';
-import { AppConfig, AIProvider } from '../types';
-import { testConnection, SecureStorage } from '../utils';
+import { AppConfig, AIProvider, ContentLanguage, AmazonMarketplace, GeoTarget, ProductDataSourceId } from '../types';
+import { testConnection, SecureStorage, AI_PROVIDERS, resolveAIModel, validateAIApiKey, getPromptLibrary, getPromptSiteKey, BOX_LOCALES, MARKETPLACES, resolveMarketplace, PRODUCT_DATA_SOURCES, DEFAULT_PRODUCT_SOURCES, getProductSourceOrder, getProductCatalog, saveProductCatalog, parseProductCatalogCsv } from '../utils';
+import { PromptLibraryEditor } from './PromptLibraryEditor';
+import { UsagePanel } from './UsagePanel';
+import { ExtractionReportPanel } from './ExtractionReportPanel';
+import { PriceRefreshPanel } from './PriceRefreshPanel';
 import Toastify from 'toastify-js';
 
 interface ConfigPanelProps {
@@ -8,23 +12,30 @@ interface ConfigPanelProps {
   initialConfig: AppConfig;
 }
 
+const mapAIKeys = (keys: AppConfig['aiApiKeys'], fn: (value: string) => string): AppConfig['aiApiKeys'] =>
+  Object.fromEntries(Object.entries(keys || {}).map(([provider, value]) => [provider, fn(value || '')]));
+
 export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig }) => {
   const [config, setConfig] = useState<AppConfig>({
       ...initialConfig,
       amazonAccessKey: SecureStorage.decrypt(initialConfig.amazonAccessKey || ''),
       amazonSecretKey: SecureStorage.decrypt(initialConfig.amazonSecretKey || ''),
+      aiApiKeys: mapAIKeys(initialConfig.aiApiKeys, SecureStorage.decrypt),
   });
   
   const [isOpen, setIsOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'wp' | 'amazon' | 'ai' | 'sota'>('wp');
+  const [activeTab, setActiveTab] = useState<'wp' | 'amazon' | 'ai' | 'prompts' | 'usage' | 'quality' | 'refresh' | 'sota'>('wp');
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
+  const [keyStatus, setKeyStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
+  const [catalogCount, setCatalogCount] = useState(() => getProductCatalog().length);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onSave({
         ...config,
         amazonAccessKey: SecureStorage.encrypt(config.amazonAccessKey),
-        amazonSecretKey: SecureStorage.encrypt(config.amazonSecretKey)
+        amazonSecretKey: SecureStorage.encrypt(config.amazonSecretKey),
+        aiApiKeys: mapAIKeys(config.aiApiKeys, SecureStorage.encrypt)
     });
     setIsOpen(false);
   };
@@ -41,6 +52,79 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
       }
   };
 
+  const handleSiteLanguage = (value: ContentLanguage | 'auto') => {
+      const siteLanguages = { ...(config.siteLanguages || {}) };
+      if (value === 'auto') delete siteLanguages[getPromptSiteKey(config)];
+      else siteLanguages[getPromptSiteKey(config)] = value;
+      setConfig({ ...config, siteLanguages });
+  };
+
+  const handleSiteMarketplace = (value: AmazonMarketplace) => {
+      const siteMarketplaces = { ...(config.siteMarketplaces || {}) };
+      siteMarketplaces[getPromptSiteKey(config)] = value;
+      setConfig({ ...config, siteMarketplaces });
+  };
+
+  const updateGeoTarget = (index: number, patch: Partial<GeoTarget>) => {
+      const geoTargets = (config.geoTargets || []).map((t, i) => i === index ? { ...t, ...patch } : t);
+      setConfig({ ...config, geoTargets });
+  };
+
+  const removeGeoTarget = (index: number) => {
+      setConfig({ ...config, geoTargets: (config.geoTargets || []).filter((_, i) => i !== index) });
+  };
+
+  const addGeoTarget = () => {
+      setConfig({ ...config, geoTargets: [...(config.geoTargets || []), { country: '', marketplace: 'UK', tag: '' }] });
+  };
+
+  const sourceOrder = getProductSourceOrder(config);
+  const sourceReady: Record<ProductDataSourceId, boolean> = {
+      cache: true,
+      paapi: !!(config.amazonAccessKey && config.amazonSecretKey),
+      serpapi: !!config.serpApiKey,
+      catalog: catalogCount > 0,
+  };
+
+  const toggleSource = (id: ProductDataSourceId) => {
+      const productSources = sourceOrder.includes(id) ? sourceOrder.filter(s => s !== id) : [...sourceOrder, id];
+      setConfig({ ...config, productSources });
+  };
+
+  const moveSource = (index: number, delta: number) => {
+      const productSources = [...sourceOrder];
+      const [moved] = productSources.splice(index, 1);
+      productSources.splice(index + delta, 0, moved);
+      setConfig({ ...config, productSources });
+  };
+
+  const handleCatalogFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const { products, skipped } = parseProductCatalogCsv(await file.text());
+          saveProductCatalog(products);
+          setCatalogCount(products.length);
+          Toastify({ text: `Catalog imported: ${products.length} products${skipped ? `, ${skipped} rows skipped` : ''}`, backgroundColor: "#10b981" }).showToast();
+      } catch (error: any) {
+          Toastify({ text: error.message, duration: 5000, backgroundColor: "#ef4444" }).showToast();
+      }
+  };
+
+  const clearCatalog = () => {
+      if (!confirm('Remove every product from the catalog?')) return;
+      saveProductCatalog([]);
+      setCatalogCount(0);
+  };
+
+  const handleValidateKey = async () => {
+      setKeyStatus('testing');
+      const result = await validateAIApiKey(config, config.aiProvider, config.aiApiKeys?.[config.aiProvider] || '');
+      setKeyStatus(result.success ? 'success' : 'error');
+      Toastify({ text: result.message, duration: result.success ? 3000 : 5000, backgroundColor: result.success ? "#10b981" : "#ef4444" }).showToast();
+  };
+
   return (
     <>
       <button onClick={() => setIsOpen(true)} className="fixed top-4 left-4 z-50 bg-dark-900/50 backdrop-blur p-4 rounded-2xl text-brand-400 border border-dark-700 hover:scale-110 transition-transform shadow-2xl">
@@ -57,9 +141,9 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
           </div>
 
           <div className="flex border-b border-dark-800 bg-dark-950/50 overflow-x-auto scrollbar-hide">
-             {['wp', 'amazon', 'ai', 'sota'].map(t => (
+             {['wp', 'amazon', 'ai', 'prompts', 'usage', 'quality', 'refresh', 'sota'].map(t => (
                  <button key={t} onClick={() => setActiveTab(t as any)} className={`flex-1 min-w-[100px] py-4 text-[9px] md:text-[10px] font-black uppercase tracking-widest transition-all ${activeTab === t ? 'text-brand-400 border-b-2 border-brand-500' : 'text-gray-500'}`}>
-                     {t === 'wp' ? 'WordPress' : t === 'amazon' ? 'Amazon' : t === 'ai' ? 'Brain Core' : 'SOTA Flags'}
+                     {t === 'wp' ? 'WordPress' : t === 'amazon' ? 'Amazon' : t === 'ai' ? 'Brain Core' : t === 'prompts' ? 'Prompts' : t === 'usage' ? 'Usage' : t === 'quality' ? 'Quality' : t === 'refresh' ? 'Refresh' : 'SOTA Flags'}
                  </button>
              ))}
           </div>
@@ -80,17 +164,97 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
                         {testStatus === 'testing' ? <i className="fa-solid fa-spinner fa-spin mr-2"></i> : null}
                         Test WP API Link
                     </button>
+                    <div>
+                        <label className="text-[9px] md:text-[10px] text-brand-500 font-black uppercase tracking-widest mb-2 block">Content Language · {getPromptSiteKey(config)}</label>
+                        <select className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={config.siteLanguages?.[getPromptSiteKey(config)] || 'auto'} onChange={e => handleSiteLanguage(e.target.value as ContentLanguage | 'auto')}>
+                            <option value="auto">Auto-detect per post</option>
+                            {(Object.keys(BOX_LOCALES) as ContentLanguage[]).map(lang => (
+                                <option key={lang} value={lang}>{BOX_LOCALES[lang].nativeName}</option>
+                            ))}
+                        </select>
+                    </div>
                 </div>
             )}
 
             {activeTab === 'amazon' && (
                 <div className="space-y-4 animate-fade-in">
+                    <div>
+                        <label className="text-[9px] md:text-[10px] text-brand-500 font-black uppercase tracking-widest mb-2 block">Marketplace · {getPromptSiteKey(config)}</label>
+                        <select className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={resolveMarketplace(config).id} onChange={e => handleSiteMarketplace(e.target.value as AmazonMarketplace)}>
+                            {Object.values(MARKETPLACES).map(m => (
+                                <option key={m.id} value={m.id}>{m.name} · {m.domain} · {m.currency}</option>
+                            ))}
+                        </select>
+                    </div>
                     <input type="text" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder="Associate Tag (e.g. tag-20)" value={config.amazonTag} onChange={e => setConfig({...config, amazonTag: e.target.value})} required />
-                    <input type="text" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder="SerpApi Key (Required for Product Lookup)" value={config.serpApiKey || ''} onChange={e => setConfig({...config, serpApiKey: e.target.value})} />
+                    <input type="text" className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder="SerpApi Key (Fallback Product Lookup)" value={config.serpApiKey || ''} onChange={e => setConfig({...config, serpApiKey: e.target.value})} />
+                    <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl space-y-3">
+                      <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Product Advertising API 5.0 (Preferred)</div>
+                      <input type="text" className="w-full bg-dark-900 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder="PA-API Access Key" value={config.amazonAccessKey} onChange={e => setConfig({...config, amazonAccessKey: e.target.value})} autoComplete="off" />
+                      <input type="password" className="w-full bg-dark-900 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder="PA-API Secret Key" value={config.amazonSecretKey} onChange={e => setConfig({...config, amazonSecretKey: e.target.value})} autoComplete="off" />
+                      <div className="grid grid-cols-2 gap-3">
+                        <input type="text" className="w-full bg-dark-900 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder="Region (custom host only)" value={config.amazonRegion} onChange={e => setConfig({...config, amazonRegion: e.target.value})} />
+                        <input type="text" className="w-full bg-dark-900 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" placeholder={`Host (${resolveMarketplace(config).paapiHost})`} value={config.amazonPaapiHost || ''} onChange={e => setConfig({...config, amazonPaapiHost: e.target.value})} />
+                      </div>
+                      <p className="text-[10px] text-gray-500">Official prices, availability, images and features. Host and region follow the marketplace; host accepts a full URL for a local stub server.</p>
+                    </div>
+                    <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl space-y-3">
+                      <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Product Data Sources</div>
+                      {[...sourceOrder, ...DEFAULT_PRODUCT_SOURCES.filter(id => !sourceOrder.includes(id))].map(id => {
+                        const index = sourceOrder.indexOf(id);
+                        return (
+                          <div key={id} className={`flex items-center gap-3 px-3 py-2 bg-dark-900 border border-dark-700 rounded-xl text-sm ${index === -1 ? 'opacity-50' : ''}`}>
+                            <input type="checkbox" checked={index !== -1} onChange={() => toggleSource(id)} className="accent-brand-500" />
+                            <span className="text-gray-500 font-mono text-[10px] w-4">{index === -1 ? '' : index + 1}</span>
+                            <span className="flex-1 text-white">{PRODUCT_DATA_SOURCES[id].label}</span>
+                            <span className={`text-[10px] ${sourceReady[id] ? 'text-emerald-400' : 'text-gray-500'}`}>
+                              {id === 'catalog' ? `${catalogCount} products` : sourceReady[id] ? 'Ready' : 'Not configured'}
+                            </span>
+                            <button type="button" disabled={index <= 0} onClick={() => moveSource(index, -1)} className="text-gray-500 hover:text-white disabled:opacity-30" title="Higher priority">
+                              <i className="fa-solid fa-chevron-up text-xs"></i>
+                            </button>
+                            <button type="button" disabled={index === -1 || index === sourceOrder.length - 1} onClick={() => moveSource(index, 1)} className="text-gray-500 hover:text-white disabled:opacity-30" title="Lower priority">
+                              <i className="fa-solid fa-chevron-down text-xs"></i>
+                            </button>
+                          </div>
+                        );
+                      })}
+                      <div className="grid grid-cols-2 gap-3">
+                        <label className="bg-dark-800 py-2 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors text-center cursor-pointer">
+                          <i className="fa-solid fa-file-csv mr-2"></i> Import Catalog CSV
+                          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleCatalogFile} />
+                        </label>
+                        <button type="button" onClick={clearCatalog} disabled={catalogCount === 0} className="bg-dark-800 py-2 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:text-red-400 transition-colors disabled:opacity-50">
+                          <i className="fa-solid fa-trash-can mr-2"></i> Clear Catalog
+                        </button>
+                      </div>
+                      <p className="text-[10px] text-gray-500">Lookups try each enabled source in order; later sources only fill fields the earlier ones lacked. Catalog CSV columns: asin, title, brand, category, price, image, rating, reviews, availability, url, marketplace.</p>
+                    </div>
+                    <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl space-y-3">
+                      <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Geo-Targeted Links</div>
+                      {(config.geoTargets || []).map((target, i) => (
+                        <div key={i} className="grid grid-cols-[70px_1fr_1fr_auto] gap-2">
+                          <input type="text" maxLength={2} className="bg-dark-900 border border-dark-700 rounded-xl px-3 py-2 text-white outline-none text-sm uppercase" placeholder="GB" value={target.country} onChange={e => updateGeoTarget(i, { country: e.target.value.toUpperCase() })} />
+                          <select className="bg-dark-900 border border-dark-700 rounded-xl px-3 py-2 text-white outline-none text-sm" value={target.marketplace} onChange={e => updateGeoTarget(i, { marketplace: e.target.value as AmazonMarketplace })}>
+                            {Object.values(MARKETPLACES).map(m => (
+                              <option key={m.id} value={m.id}>{m.domain}</option>
+                            ))}
+                          </select>
+                          <input type="text" className="bg-dark-900 border border-dark-700 rounded-xl px-3 py-2 text-white outline-none text-sm" placeholder="Store tag (e.g. tag-21)" value={target.tag} onChange={e => updateGeoTarget(i, { tag: e.target.value })} />
+                          <button type="button" onClick={() => removeGeoTarget(i)} className="px-3 text-gray-500 hover:text-red-400 transition-colors" title="Remove">
+                            <i className="fa-solid fa-xmark"></i>
+                          </button>
+                        </div>
+                      ))}
+                      <button type="button" onClick={addGeoTarget} className="w-full bg-dark-800 py-2 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors">
+                        <i className="fa-solid fa-plus mr-2"></i> Add Country
+                      </button>
+                      <p className="text-[10px] text-gray-500">Visitors from each country get that store's link, picked in the browser by time zone and locale. Listings are checked per store during scans.</p>
+                    </div>
                     <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-xl">
                       <p className="text-[11px] text-amber-400 leading-relaxed">
                         <i className="fa-solid fa-triangle-exclamation mr-2"></i>
-                        SerpApi key is required for accurate product images and data. Get one at <a href="https://serpapi.com" target="_blank" rel="noopener" className="underline">serpapi.com</a>
+                        PA-API keys, a SerpApi key or an imported catalog are required for accurate product images and data. Get one at <a href="https://serpapi.com" target="_blank" rel="noopener" className="underline">serpapi.com</a>
                       </p>
                     </div>
                 </div>
@@ -98,24 +262,64 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
 
             {activeTab === 'ai' && (
                 <div className="space-y-4 animate-fade-in">
-                    <select className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={config.aiProvider} onChange={e => setConfig({...config, aiProvider: e.target.value as AIProvider})}>
-                        <option value="gemini">Google Gemini</option>
-                        <option value="openai">OpenAI (Coming Soon)</option>
+                    <select className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={config.aiProvider} onChange={e => {
+                        const provider = e.target.value as AIProvider;
+                        setConfig({...config, aiProvider: provider, aiModel: AI_PROVIDERS[provider].defaultModel});
+                        setKeyStatus('idle');
+                    }}>
+                        {Object.values(AI_PROVIDERS).map(p => (
+                            <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
                     </select>
-                    <select className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={config.aiModel} onChange={e => setConfig({...config, aiModel: e.target.value})}>
-                        <option value="gemini-2.0-flash">Gemini 2.0 Flash (Recommended)</option>
-                        <option value="gemini-1.5-flash">Gemini 1.5 Flash (Fallback)</option>
-                        <option value="gemini-1.5-pro">Gemini 1.5 Pro (High Quality)</option>
+                    <select className="w-full bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={resolveAIModel(config)} onChange={e => setConfig({...config, aiModel: e.target.value})}>
+                        {AI_PROVIDERS[config.aiProvider].models.map(m => (
+                            <option key={m.id} value={m.id}>{m.label}</option>
+                        ))}
                     </select>
+                    <div className="flex flex-col sm:flex-row gap-3">
+                        <input type="password" className={`flex-1 bg-dark-950 border rounded-xl px-4 py-3 text-white outline-none text-sm ${keyStatus === 'error' ? 'border-red-500' : keyStatus === 'success' ? 'border-green-500' : 'border-dark-700'}`} placeholder={`${AI_PROVIDERS[config.aiProvider].label} API Key`} value={config.aiApiKeys?.[config.aiProvider] || ''} onChange={e => {
+                            setConfig({...config, aiApiKeys: {...config.aiApiKeys, [config.aiProvider]: e.target.value}});
+                            setKeyStatus('idle');
+                        }} autoComplete="off" />
+                        <button type="button" onClick={handleValidateKey} disabled={keyStatus === 'testing'} className="bg-dark-800 px-6 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors">
+                            {keyStatus === 'testing' ? <i className="fa-solid fa-spinner fa-spin mr-2"></i> : keyStatus === 'success' ? <i className="fa-solid fa-check text-green-500 mr-2"></i> : null}
+                            Validate Key
+                        </button>
+                    </div>
                     <div className="p-4 bg-blue-500/10 border border-blue-500/30 rounded-xl">
                       <p className="text-[11px] text-blue-400 leading-relaxed">
                         <i className="fa-solid fa-info-circle mr-2"></i>
-                        Gemini 2.0 Flash provides the best balance of speed and accuracy for product extraction.
+                        Keys are stored encrypted in this browser only, one per provider. {AI_PROVIDERS[config.aiProvider].label} runs the product extraction prompt in JSON mode. Gemini 2.0 Flash provides the best balance of speed and accuracy.
                       </p>
                     </div>
                 </div>
             )}
 
+            {activeTab === 'prompts' && (
+                <PromptLibraryEditor
+                    library={getPromptLibrary(config)}
+                    siteKey={getPromptSiteKey(config)}
+                    onChange={promptLibrary => setConfig({...config, promptLibrary})}
+                />
+            )}
+
+            {activeTab === 'usage' && (
+                <UsagePanel
+                    budgetUsd={config.aiSessionBudgetUsd || 0}
+                    onBudgetChange={aiSessionBudgetUsd => setConfig({...config, aiSessionBudgetUsd})}
+                />
+            )}
+
+            {activeTab === 'quality' && <ExtractionReportPanel />}
+
+            {activeTab === 'refresh' && (
+                <PriceRefreshPanel
+                    config={initialConfig}
+                    hours={config.priceRefreshHours || 0}
+                    onHoursChange={priceRefreshHours => setConfig({...config, priceRefreshHours})}
+                />
+            )}
+
             {activeTab === 'sota' && (
                 <div className="space-y-4 animate-fade-in">
                     <div className="flex items-center justify-between p-4 bg-dark-950 border border-dark-700 rounded-2xl">
@@ -126,6 +330,10 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ onSave, initialConfig
                         <span className="text-[11px] font-bold">Precision Placement (Auto-Intro/Outro)</span>
                         <input type="checkbox" checked={config.enableStickyBar} onChange={e => setConfig({...config, enableStickyBar: e.target.checked})} className="w-5 h-5 accent-brand-500" />
                     </div>
+                    <div className="flex items-center justify-between p-4 bg-dark-950 border border-dark-700 rounded-2xl">
+                        <span className="text-[11px] font-bold">AI Post Classification During Audit</span>
+                        <input type="checkbox" checked={!!config.aiClassifyOnAudit} onChange={e => setConfig({...config, aiClassifyOnAudit: e.target.checked})} className="w-5 h-5 accent-brand-500" />
+                    </div>
                 </div>
             )}
 
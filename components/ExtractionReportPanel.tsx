@@ -0,0 +1,95 @@
+
+import React, { useMemo, useState } from 'react';
+import {
+  runExtractionRegression,
+  getExtractionBaseline,
+  saveExtractionBaseline,
+  ExtractionRegressionReport,
+} from '../utils';
+import { EXTRACTION_FIXTURES } from '../extractionFixtures';
+import Toastify from 'toastify-js';
+
+const formatPct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const MetricCard: React.FC<{ label: string; value: number; baseline?: number }> = ({ label, value, baseline }) => {
+  const delta = baseline === undefined ? 0 : value - baseline;
+  return (
+    <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl">
+      <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest mb-2">{label}</div>
+      <div className="text-2xl font-black text-white tracking-tight">{formatPct(value)}</div>
+      {baseline !== undefined && Math.abs(delta) >= 0.0005 && (
+        <div className={`text-[10px] font-bold mt-1 ${delta > 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {delta > 0 ? '▲' : '▼'} {formatPct(Math.abs(delta))} vs baseline
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ExtractionReportPanel: React.FC = () => {
+  const [replayAI, setReplayAI] = useState(true);
+  const [baseline, setBaseline] = useState<ExtractionRegressionReport | null>(() => getExtractionBaseline());
+
+  // Offline and synchronous, so it runs on open and whenever the mode changes
+  const report = useMemo(() => runExtractionRegression(EXTRACTION_FIXTURES, { replayAI }), [replayAI]);
+  const comparable = baseline && baseline.aiReplay === report.aiReplay ? baseline : null;
+  const patternsChanged = !!baseline && baseline.fingerprint !== report.fingerprint;
+
+  const handleSaveBaseline = () => {
+    saveExtractionBaseline(report);
+    setBaseline(report);
+    Toastify({ text: "Extraction baseline saved", backgroundColor: "#10b981" }).showToast();
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {patternsChanged && (
+        <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-2xl text-[11px] text-amber-300">
+          <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+          Extraction patterns or forbidden words changed since the baseline ({baseline?.fingerprint} → {report.fingerprint}). Review the deltas below.
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <MetricCard label="Precision" value={report.precision} baseline={comparable?.precision} />
+        <MetricCard label="Recall" value={report.recall} baseline={comparable?.recall} />
+        <MetricCard label="F1" value={report.f1} baseline={comparable?.f1} />
+      </div>
+
+      <div className="flex items-center justify-between p-4 bg-dark-950 border border-dark-700 rounded-2xl">
+        <div>
+          <span className="text-[11px] font-bold">Replay Recorded AI Responses</span>
+          <p className="text-[10px] text-gray-500">Off = regex/DOM strategies only. No network calls either way.</p>
+        </div>
+        <input type="checkbox" checked={replayAI} onChange={e => setReplayAI(e.target.checked)} className="w-5 h-5 accent-brand-500" />
+      </div>
+
+      <div className="text-[10px] text-gray-500">
+        {EXTRACTION_FIXTURES.length} fixtures · {report.truePositives} TP · {report.falsePositives} FP · {report.falseNegatives} FN · fingerprint <span className="font-mono">{report.fingerprint}</span>
+      </div>
+
+      <div className="space-y-2">
+        {report.fixtures.map(f => (
+          <div key={f.id} className="p-3 bg-dark-950 border border-dark-800 rounded-xl text-[11px] space-y-1">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-mono text-gray-400 truncate">{f.id}</span>
+              <span className="text-white font-bold shrink-0">
+                P {formatPct(f.precision)} · R {formatPct(f.recall)}
+              </span>
+            </div>
+            {f.missed.length > 0 && (
+              <div className="text-red-400"><span className="font-bold">Missed:</span> {f.missed.join(', ')}</div>
+            )}
+            {f.falsePositives.length > 0 && (
+              <div className="text-amber-400"><span className="font-bold">Extra:</span> {f.falsePositives.join(', ')}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button type="button" onClick={handleSaveBaseline} className="w-full bg-dark-800 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors">
+        <i className="fa-solid fa-flag-checkered mr-2"></i> Save as Baseline
+      </button>
+    </div>
+  );
+};
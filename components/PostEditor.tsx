@@ -1,7 +1,7 @@
 
-import React, { useState, useEffect, Dispatch, SetStateAction } from 'react';
-import { BlogPost, ProductDetails, AppConfig, DeploymentMode, ComparisonData, CarouselData } from '../types';
-import { pushToWordPress, fetchRawPostContent, analyzeContentAndFindProduct, splitContentIntoBlocks, IntelligenceCache, generateProductBoxHtml, generateComparisonTableHtml, generateCarouselHtml } from '../utils';
+import React, { useState, useEffect, useMemo, useRef, Dispatch, SetStateAction } from 'react';
+import { BlogPost, ProductDetails, AppConfig, DeploymentMode, ComparisonData, CarouselData, ScanProgressEvent, PlacedBlock, DeadListing, ProductCandidate } from '../types';
+import { pushToWordPress, fetchRawPostContent, analyzeContentAndFindProduct, splitContentIntoBlocks, IntelligenceCache, generateContentHash, testExtractionPrompt, getPromptLibrary, resolvePromptTemplate, resolveAIModel, AIBudgetExceededError, getUnacknowledgedClaims, fixProductClaims, acknowledgeProductClaims, createRelevanceEngine, ScanCancelledError, suggestAlternativePicks, analyzeContentGaps, renderGapSectionHtml, fixSectionClaims, resolveGapProduct, ContentGapReport, replaceShortLinks, renderPlacedBlock, recordPlacements, getPlacementLedger, getDeadListingReport, resolveDeadListing, applyReplacement, prepareReplacement, searchAmazonCandidates, applyCandidateChoice, calculatePostPriority, ValidationError } from '../utils';
 import { ProductBoxPreview } from './ProductBoxPreview';
 import { ComparisonTablePreview } from './ComparisonTablePreview';
 import { CarouselPreview } from './CarouselPreview';
@@ -24,15 +24,77 @@ interface EditorNode {
     carouselData?: CarouselData; // Only for CAROUSEL type
 }
 
+interface ScanStep {
+    id: string;
+    label: string;
+    detail?: string;
+    state: 'running' | 'done' | 'cached' | 'failed';
+}
+
+// Folds one pipeline event into the live step list shown in the Assets Deck
+const applyScanEvent = (steps: ScanStep[], event: ScanProgressEvent): ScanStep[] => {
+    const upsert = (step: ScanStep) => {
+        const idx = steps.findIndex(s => s.id === step.id);
+        if (idx === -1) return [...steps, step];
+        const next = [...steps];
+        next[idx] = { ...next[idx], ...step };
+        return next;
+    };
+
+    switch (event.type) {
+        case 'pre-extraction':
+            return upsert({ id: 'pre', label: 'Pre-extraction', detail: `${event.asins} ASINs · ${event.names} names · ${event.chunks} chunk(s) · ${event.language.toUpperCase()}`, state: 'done' });
+        case 'ai-start':
+            return upsert({ id: `ai-${event.stage}-${event.label}`, label: `${event.stage}: ${event.label}`, state: 'running' });
+        case 'ai-end':
+            return upsert({ id: `ai-${event.stage}-${event.label}`, label: `${event.stage}: ${event.label}`, detail: event.detail, state: event.ok ? 'done' : 'failed' });
+        case 'lookup-start':
+            return upsert({ id: `lookup-${event.index}`, label: `Lookup ${event.index + 1}/${event.total}: ${event.query}`, state: 'running' });
+        case 'lookup-end':
+            return upsert({ id: `lookup-${event.index}`, label: `Lookup ${event.index + 1}/${event.total}: ${event.query}`, detail: event.status === 'not-found' ? 'No Amazon match' : event.title, state: event.status === 'cached' ? 'cached' : event.status === 'found' ? 'done' : 'failed' });
+        case 'complete':
+            return upsert({ id: 'complete', label: 'Complete', detail: `${event.products} products${event.warnings ? ` · ${event.warnings} warning(s)` : ''}`, state: 'done' });
+        default:
+            return steps;
+    }
+};
+
+// "price: paapi · imageUrl: serpapi" for the staging badge tooltip
+const describeFieldSources = (product: ProductDetails): string =>
+    Object.entries(product.fieldSources || {}).map(([field, source]) => `${field}: ${source}`).join(' · ') || `From ${product.dataSource}`;
+
+const SCAN_STEP_ICONS: Record<ScanStep['state'], string> = {
+    running: 'fa-circle-notch fa-spin text-brand-400',
+    done: 'fa-check text-emerald-400',
+    cached: 'fa-database text-sky-400',
+    failed: 'fa-triangle-exclamation text-amber-400',
+};
+
 export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack }) => {
     // Core State
     const [editorNodes, setEditorNodes] = useState<EditorNode[]>([]);
     const [productMap, setProductMap] = useState<Record<string, ProductDetails>>({});
     const [currentId, setCurrentId] = useState<number>(post.id);
-    const [status, setStatus] = useState<'idle' | 'fetching' | 'analyzing' | 'pushing' | 'error'>('idle');
+    const [status, setStatus] = useState<'idle' | 'fetching' | 'analyzing' | 'suggesting' | 'analyzing-gaps' | 'pushing' | 'error'>('idle');
     const [viewTab, setViewTab] = useState<'visual' | 'code'>('visual');
     const [hoveredNode, setHoveredNode] = useState<string | null>(null);
     const [showAssetsDeck, setShowAssetsDeck] = useState(false);
+    const [showClaimReview, setShowClaimReview] = useState(false);
+    const [scanSteps, setScanSteps] = useState<ScanStep[]>([]);
+    const scanAbortRef = useRef<AbortController | null>(null);
+    // anchorIds[i] is the HTML node that was block #i when the gap report was generated
+    const [gapState, setGapState] = useState<{ report: ContentGapReport; anchorIds: string[] } | null>(null);
+    const [stagingGap, setStagingGap] = useState<string | null>(null);
+    const [promptTest, setPromptTest] = useState<{ templateId: string; result?: Awaited<ReturnType<typeof testExtractionPrompt>>; error?: string; running: boolean } | null>(null);
+    const [deadListings, setDeadListings] = useState<DeadListing[]>([]);
+    const [swappingId, setSwappingId] = useState<string | null>(null);
+    const [picker, setPicker] = useState<{ productId: string; candidates?: ProductCandidate[] } | null>(null);
+    const [applyingCandidate, setApplyingCandidate] = useState<string | null>(null);
+
+    // Dead listings flagged for this post by the last site-wide check
+    useEffect(() => {
+        setDeadListings((getDeadListingReport()?.listings || []).filter(l => l.postId === currentId));
+    }, [currentId]);
 
     // Initialization Logic
     useEffect(() => {
@@ -45,7 +107,7 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
                 
                 // 2. Hydrate Products from Cache or Props
                 let initialProducts = post.activeProducts || [];
-                const contentHash = `v3_${post.title}_${result.content.length}`;
+                const contentHash = generateContentHash(post.title, result.content.length);
                 const cached = IntelligenceCache.getAnalysis(contentHash);
                 
                 let initialComparison: ComparisonData | undefined = undefined;
@@ -111,32 +173,36 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
 
     // --- RELEVANCE ENGINE ---
 
-    const calculateRelevance = (text: string, product: ProductDetails) => {
-        const cleanText = text.toLowerCase();
-        // Weighted Keywords
-        const titleWords = product.title.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-        const brand = product.brand?.toLowerCase();
-        
-        let score = 0;
-        
-        // Exact Title Match (Highest Confidence)
-        if (cleanText.includes(product.title.toLowerCase())) score += 100;
-        
-        // Brand Mention
-        if (brand && cleanText.includes(brand)) score += 20;
-        
-        // Keyword density
-        titleWords.forEach(word => {
-            if (cleanText.includes(word)) score += 5;
-        });
+    // Offline TF-IDF scorer over the current HTML blocks (synonym-aware)
+    const relevanceEngine = useMemo(
+        () => createRelevanceEngine(editorNodes.filter(n => n.type === 'HTML' && n.content).map(n => n.content!)),
+        [editorNodes]
+    );
 
-        // Negative heuristic: Don't place inside very short blocks (likely headers) unless exact match
-        if (text.length < 50 && score < 50) score -= 10;
+    const calculateRelevance = (text: string, product: ProductDetails) => relevanceEngine.score(text, product);
 
-        return score;
+    const findRecommendedInsertionIndex = (product: ProductDetails, nodesSnapshot: EditorNode[]) => {
+        if (product.recommendedBlockIndex === undefined) return -1;
+
+        // recommendedBlockIndex counts HTML blocks only; map it onto the node list
+        let htmlCount = 0;
+        for (let idx = 0; idx < nodesSnapshot.length; idx++) {
+            if (nodesSnapshot[idx].type !== 'HTML') continue;
+            if (htmlCount === product.recommendedBlockIndex) {
+                let target = idx + 1;
+                // Keep recommendation order when several boxes follow the same block
+                while (target < nodesSnapshot.length && nodesSnapshot[target].type === 'PRODUCT') target++;
+                return target;
+            }
+            htmlCount++;
+        }
+        return -1;
     };
 
     const findBestInsertionIndex = (product: ProductDetails, nodesSnapshot: EditorNode[]) => {
+        const recommended = findRecommendedInsertionIndex(product, nodesSnapshot);
+        if (recommended !== -1) return recommended;
+
         let bestIndex = 0;
         let maxScore = -1;
 
@@ -199,21 +265,8 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
         let injectedCount = 0;
 
         unplaced.forEach(p => {
-             let bestIdx = 0;
-             let maxScore = -1;
-             
-             newNodes.forEach((node, idx) => {
-                if (node.type === 'HTML' && node.content) {
-                    const score = calculateRelevance(node.content, p);
-                    if (score > maxScore) {
-                        maxScore = score;
-                        bestIdx = idx;
-                    }
-                }
-             });
-             
              const newNode: EditorNode = { id: `prod-node-${p.id}-${Date.now()}`, type: 'PRODUCT', productId: p.id };
-             newNodes.splice(bestIdx + 1, 0, newNode);
+             newNodes.splice(findBestInsertionIndex(p, newNodes), 0, newNode);
              injectedCount++;
         });
 
@@ -225,9 +278,15 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
 
     const runDeepScan = async () => {
         setStatus('analyzing');
+        setScanSteps([]);
+        const controller = new AbortController();
+        scanAbortRef.current = controller;
         try {
             const currentHtml = editorNodes.filter(n => n.type === 'HTML').map(n => n.content).join('');
-            const res = await analyzeContentAndFindProduct(post.title, currentHtml, config);
+            const res = await analyzeContentAndFindProduct(post.title, currentHtml, config, {
+                signal: controller.signal,
+                onProgress: event => setScanSteps(prev => applyScanEvent(prev, event)),
+            });
             
             // Handle Products
             if (res.detectedProducts.length > 0) {
@@ -239,10 +298,21 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
                 Toastify({ text: "Zero Match: No monetization entities mapped.", style: { background: "#f59e0b" } }).showToast();
             }
 
+            // Partial AI failure: products came from pre-extraction only for some chunks
+            if (res.warnings.length > 0) {
+                Toastify({ text: `AI Partial Failure: ${res.warnings[0].substring(0, 80)}`, duration: 5000, style: { background: "#f59e0b" } }).showToast();
+            }
+
+            // Existing links into another Amazon store earn nothing on this site's tag
+            if (res.foreignMarketplaceLinks.length > 0) {
+                const summary = res.foreignMarketplaceLinks.map(l => `${l.domain} ×${l.count}`).join(', ');
+                Toastify({ text: `Links to other Amazon stores: ${summary}`, duration: 6000, style: { background: "#f59e0b" } }).showToast();
+            }
+
             // Handle Comparison Table
             if (res.comparison) {
-                // Remove existing comparison nodes if any to prevent dups (optional, simplified here to just add)
-                const newNodes = [...editorNodes];
+                // Replace any previous matrix so re-scans don't stack duplicate tables
+                const newNodes = editorNodes.filter(n => n.type !== 'COMPARISON');
                 // Inject near top
                 newNodes.splice(1, 0, {
                     id: `comp-table-${Date.now()}`,
@@ -265,11 +335,218 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
 
         } catch (e: any) {
             console.error(e);
+            if (e instanceof ScanCancelledError) {
+                Toastify({ text: "Scan Cancelled", style: { background: "#64748b" } }).showToast();
+                return;
+            }
+            if (e instanceof AIBudgetExceededError) {
+                Toastify({ text: `AI Budget Paused: $${e.spentUsd.toFixed(4)} of $${e.budgetUsd.toFixed(2)} spent this session`, duration: 6000, style: { background: "#f59e0b" } }).showToast();
+                return;
+            }
             // SOTA Error Reporting: Show exact error from the utility function
             const errorMsg = e.message || "Unknown error";
             const displayMsg = errorMsg.length > 80 ? errorMsg.substring(0, 77) + "..." : errorMsg;
             Toastify({ text: `Intelligence Failure: ${displayMsg}`, duration: 5000, style: { background: "#ef4444" } }).showToast();
-        } finally { setStatus('idle'); }
+        } finally {
+            scanAbortRef.current = null;
+            setStatus('idle');
+        }
+    };
+
+    // Review subject for alternative picks: the first product that is not itself an alternative
+    const primaryProduct = Object.values(productMap).find(p => !p.role || p.role === 'primary');
+    // Alternatives only make sense next to a single-product review; unaudited posts fall back to the title heuristic
+    const isReviewPost = (post.postType && post.postType !== 'unknown' ? post.postType : calculatePostPriority(post.title, '').type) === 'review';
+
+    const runAlternatives = async () => {
+        if (!primaryProduct || !isReviewPost) return;
+        setStatus('suggesting');
+        try {
+            const picks = await suggestAlternativePicks(primaryProduct, config);
+            if (picks.length === 0) {
+                Toastify({ text: "No suitable budget or upgrade pick found", style: { background: "#f59e0b" } }).showToast();
+                return;
+            }
+
+            // Re-running replaces earlier picks that were never placed
+            const placedIds = new Set(editorNodes.map(n => n.productId).filter(Boolean));
+            setProductMap(prev => {
+                const next = Object.fromEntries(Object.entries(prev).filter(([id, p]) => p.alternativeFor !== primaryProduct.id || placedIds.has(id)));
+                picks.forEach(p => next[p.id] = p);
+                return next;
+            });
+            Toastify({ text: `${picks.length} Alternative Pick(s) Staged`, style: { background: "#3b82f6" } }).showToast();
+        } catch (e: any) {
+            console.error(e);
+            if (e instanceof AIBudgetExceededError) {
+                Toastify({ text: `AI Budget Paused: $${e.spentUsd.toFixed(4)} of $${e.budgetUsd.toFixed(2)} spent this session`, duration: 6000, style: { background: "#f59e0b" } }).showToast();
+                return;
+            }
+            Toastify({ text: `Alternatives Failed: ${(e.message || 'Unknown error').substring(0, 80)}`, duration: 5000, style: { background: "#ef4444" } }).showToast();
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    const shortLinkProducts = Object.values(productMap).filter(p => p.asin && p.shortLinks?.length);
+
+    const canonicalizeShortLinks = () => {
+        let total = 0;
+        const nextNodes = editorNodes.map(node => {
+            if (node.type !== 'HTML' || !node.content) return node;
+            const { html, replaced } = replaceShortLinks(node.content, shortLinkProducts, config.amazonTag);
+            total += replaced;
+            return replaced > 0 ? { ...node, content: html } : node;
+        });
+        if (total === 0) {
+            Toastify({ text: "No Short Links Left To Replace", style: { background: "#f59e0b" } }).showToast();
+            return;
+        }
+        setEditorNodes(nextNodes);
+        Toastify({ text: `${total} Short Link(s) Replaced With Tagged Links`, style: { background: "#10b981" } }).showToast();
+    };
+
+    const runGapAnalysis = async () => {
+        setStatus('analyzing-gaps');
+        try {
+            const htmlNodes = editorNodes.filter(n => n.type === 'HTML');
+            const report = await analyzeContentGaps(post.title, htmlNodes.map(n => n.content || ''), Object.values(productMap), config, post.productCategories);
+            setGapState({ report, anchorIds: htmlNodes.map(n => n.id) });
+            if (report.sections.length === 0 && report.products.length === 0) {
+                Toastify({ text: "No Content Gaps Found", style: { background: "#10b981" } }).showToast();
+            }
+        } catch (e: any) {
+            console.error(e);
+            if (e instanceof AIBudgetExceededError) {
+                Toastify({ text: `AI Budget Paused: $${e.spentUsd.toFixed(4)} of $${e.budgetUsd.toFixed(2)} spent this session`, duration: 6000, style: { background: "#f59e0b" } }).showToast();
+                return;
+            }
+            Toastify({ text: `Gap Analysis Failed: ${(e.message || 'Unknown error').substring(0, 80)}`, duration: 5000, style: { background: "#ef4444" } }).showToast();
+        } finally {
+            setStatus('idle');
+        }
+    };
+
+    const insertGapSection = (sectionIndex: number) => {
+        if (!gapState) return;
+        const dropSection = () => setGapState({ ...gapState, report: { ...gapState.report, sections: gapState.report.sections.filter((_, i) => i !== sectionIndex) } });
+        // Draft copy passes the same claim linter as product boxes
+        const { section, flagged } = fixSectionClaims(gapState.report.sections[sectionIndex], Object.values(productMap));
+        if (section.paragraphs.length === 0) {
+            dropSection();
+            Toastify({ text: "Section Dropped: every sentence made unverifiable claims", duration: 5000, style: { background: "#f59e0b" } }).showToast();
+            return;
+        }
+        const anchorIdx = editorNodes.findIndex(n => n.id === gapState.anchorIds[section.afterBlockIndex]);
+        // Anchor deleted since the analysis: append at the end instead
+        const targetIndex = anchorIdx === -1 ? editorNodes.length : anchorIdx + 1;
+
+        const newNodes = [...editorNodes];
+        newNodes.splice(targetIndex, 0, { id: `gap-${Date.now()}`, type: 'HTML', content: renderGapSectionHtml(section) });
+        setEditorNodes(newNodes);
+        dropSection();
+        Toastify({
+            text: flagged ? `Section Inserted: ${flagged} unverifiable claim(s) softened or removed` : `Section Inserted: ${section.heading.substring(0, 30)}`,
+            style: { background: flagged ? "#f59e0b" : "#10b981" }
+        }).showToast();
+    };
+
+    const stageGapProduct = async (productIndex: number) => {
+        if (!gapState) return;
+        const gap = gapState.report.products[productIndex];
+        setStagingGap(gap.productName);
+        try {
+            const product = await resolveGapProduct(gap, gapState.report.category, config, primaryProduct?.language);
+            setProductMap(prev => ({ ...prev, [product.id]: product }));
+            setGapState(prev => prev && ({ ...prev, report: { ...prev.report, products: prev.report.products.filter(p => p !== gap) } }));
+            Toastify({ text: `Asset Staged: ${product.title.substring(0, 30)}`, style: { background: "#3b82f6" } }).showToast();
+        } catch (e: any) {
+            if (e instanceof ValidationError) {
+                Toastify({ text: `Not Found On Amazon: ${gap.productName.substring(0, 40)}`, style: { background: "#f59e0b" } }).showToast();
+                return;
+            }
+            Toastify({ text: `Lookup Failed: ${(e.message || 'Unknown error').substring(0, 80)}`, style: { background: "#ef4444" } }).showToast();
+        } finally {
+            setStagingGap(null);
+        }
+    };
+
+    const dismissDeadListing = (listing: DeadListing) => {
+        resolveDeadListing(listing.postId, listing.product.id);
+        setDeadListings(prev => prev.filter(l => l !== listing));
+    };
+
+    const swapDeadListing = async (listing: DeadListing, replacement: ProductDetails) => {
+        const dead = productMap[listing.product.id] || listing.product;
+        // Fresh copy for the new product; the dead product's verdict and bullets describe something else
+        setSwappingId(replacement.id);
+        const postHtml = editorNodes.filter(n => n.type === 'HTML').map(n => n.content || '').join('\n');
+        const swapped = applyReplacement(dead, await prepareReplacement(replacement, postHtml, config));
+        setSwappingId(null);
+
+        // Boxes pushed earlier load back as plain HTML: re-render those, then repoint inline links
+        const record = getPlacementLedger()[currentId];
+        const blocks = (record?.blocks || []).filter(b => b.productIds.includes(dead.id));
+        const ledgerProducts = (record?.products || []).map(p => p.id === dead.id ? swapped : p);
+        const deadLink = dead.asin && swapped.asin ? new RegExp(`/dp/${dead.asin}(?![A-Z0-9])`, 'gi') : null;
+        const rewriteNode = (node: EditorNode): EditorNode => {
+            if (node.type !== 'HTML' || !node.content) return node;
+            let content = node.content;
+            blocks.forEach(block => {
+                if (content.includes(block.html)) content = content.split(block.html).join(renderPlacedBlock(block, ledgerProducts, config));
+            });
+            if (deadLink) content = content.replace(deadLink, `/dp/${swapped.asin}`);
+            return content === node.content ? node : { ...node, content };
+        };
+        // Counted on the nodes at click time, applied to the latest ones in case they changed while enriching
+        const rewritten = editorNodes.filter(node => rewriteNode(node) !== node).length;
+
+        setProductMap(prev => ({ ...prev, [dead.id]: swapped }));
+        if (rewritten > 0) setEditorNodes(prev => prev.map(rewriteNode));
+        dismissDeadListing(listing);
+        Toastify({ text: `Swapped In: ${swapped.title.substring(0, 30)}${rewritten ? ` · ${rewritten} block(s) rewritten` : ''}`, style: { background: "#10b981" } }).showToast();
+    };
+
+    const matchableProducts = Object.values(productMap).filter(p => p.lookupQuery);
+
+    const openCandidatePicker = async (product: ProductDetails) => {
+        if (picker?.productId === product.id) {
+            setPicker(null);
+            return;
+        }
+        setPicker({ productId: product.id });
+        try {
+            const candidates = await searchAmazonCandidates(product.lookupQuery || product.title, config, product.brand);
+            setPicker(prev => prev?.productId === product.id ? { productId: product.id, candidates } : prev);
+        } catch (e: any) {
+            setPicker(null);
+            Toastify({ text: `Candidate Search Failed: ${(e.message || 'Unknown error').substring(0, 80)}`, style: { background: "#ef4444" } }).showToast();
+        }
+    };
+
+    const chooseCandidate = async (product: ProductDetails, candidate: ProductCandidate) => {
+        setApplyingCandidate(candidate.asin);
+        try {
+            const updated = await applyCandidateChoice(product, candidate, config);
+            setProductMap(prev => ({ ...prev, [product.id]: updated }));
+            setPicker(null);
+            Toastify({ text: `Match Locked: ${updated.asin} for "${(product.lookupQuery || '').substring(0, 30)}"`, style: { background: "#10b981" } }).showToast();
+        } catch (e: any) {
+            Toastify({ text: `Lookup Failed: ${(e.message || 'Unknown error').substring(0, 80)}`, style: { background: "#ef4444" } }).showToast();
+        } finally {
+            setApplyingCandidate(null);
+        }
+    };
+
+    const runPromptTest = async (templateId: string) => {
+        setPromptTest({ templateId, running: true });
+        try {
+            const currentHtml = editorNodes.filter(n => n.type === 'HTML').map(n => n.content).join('');
+            const result = await testExtractionPrompt(post.title, currentHtml, config, templateId);
+            setPromptTest({ templateId, result, running: false });
+        } catch (e: any) {
+            setPromptTest({ templateId, error: e.message || 'Unknown error', running: false });
+        }
     };
 
     const deleteNode = (id: string) => {
@@ -305,27 +582,73 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
         return Object.values(productMap).filter(p => !placedIds.has(p.id));
     };
 
-    const generateFinalHtml = () => {
-        return editorNodes.map(node => {
+    // Box nodes in the shape the price refresh ledger stores them
+    const toPlacedBlock = (node: EditorNode): Omit<PlacedBlock, 'html'> | null => {
+        if (node.type === 'PRODUCT' && node.productId && productMap[node.productId]) {
+            return { kind: 'product', productIds: [node.productId] };
+        }
+        if (node.type === 'COMPARISON' && node.comparisonData) {
+            return { kind: 'comparison', productIds: node.comparisonData.productIds, comparison: node.comparisonData };
+        }
+        if (node.type === 'CAROUSEL' && node.carouselData) {
+            return { kind: 'carousel', productIds: node.carouselData.productIds, carousel: node.carouselData };
+        }
+        return null;
+    };
+
+    const renderFinal = (): { html: string; blocks: PlacedBlock[] } => {
+        const blocks: PlacedBlock[] = [];
+        const html = editorNodes.map(node => {
             if (node.type === 'HTML') return node.content;
-            if (node.type === 'PRODUCT' && node.productId && productMap[node.productId]) {
-                return generateProductBoxHtml(productMap[node.productId], config.amazonTag, productMap[node.productId].deploymentMode);
-            }
-            if (node.type === 'COMPARISON' && node.comparisonData) {
-                return generateComparisonTableHtml(node.comparisonData, Object.values(productMap), config.amazonTag);
-            }
-            if (node.type === 'CAROUSEL' && node.carouselData) {
-                return generateCarouselHtml(node.carouselData, Object.values(productMap), config.amazonTag);
-            }
-            return '';
+            const block = toPlacedBlock(node);
+            if (!block) return '';
+            const blockHtml = renderPlacedBlock(block, Object.values(productMap), config);
+            if (blockHtml) blocks.push({ ...block, html: blockHtml });
+            return blockHtml;
         }).join('\n\n');
+        return { html, blocks };
+    };
+
+    const generateFinalHtml = () => renderFinal().html;
+
+    // Placed boxes whose copy still carries unverifiable claims nobody signed off on
+    const getFlaggedProducts = () => {
+        const placedIds = Array.from(new Set(editorNodes.filter(n => n.type === 'PRODUCT' && n.productId).map(n => n.productId!)));
+        return placedIds
+            .map(id => productMap[id])
+            .filter((p): p is ProductDetails => !!p)
+            .map(product => ({ product, issues: getUnacknowledgedClaims(product) }))
+            .filter(entry => entry.issues.length > 0);
+    };
+
+    const resolveClaims = (id: string, action: 'soften' | 'strip' | 'acknowledge') => {
+        setProductMap(prev => ({
+            ...prev,
+            [id]: action === 'acknowledge' ? acknowledgeProductClaims(prev[id]) : fixProductClaims(prev[id], action)
+        }));
     };
 
     const handlePush = async () => {
+        if (getFlaggedProducts().length > 0) {
+            setShowClaimReview(true);
+            Toastify({ text: "Push Blocked: Review flagged product claims first", duration: 4000, style: { background: "#f59e0b" } }).showToast();
+            return;
+        }
+        setShowClaimReview(false);
         setStatus('pushing');
         try {
-            const html = generateFinalHtml();
+            const { html, blocks } = renderFinal();
             const link = await pushToWordPress(config, currentId, html);
+            // Products of boxes from earlier pushes ride along so swapped ones are recorded re-rendered
+            const placedIds = new Set([...blocks, ...(getPlacementLedger()[currentId]?.blocks || [])].flatMap(b => b.productIds));
+            recordPlacements({
+                postId: currentId,
+                title: post.title,
+                url: post.url,
+                products: Object.values(productMap).filter(p => placedIds.has(p.id)),
+                blocks,
+                pushedAt: Date.now(),
+            }, html, config);
             Toastify({ text: "Production Sync Successful", style: { background: "#10b981" } }).showToast();
             window.open(link, '_blank');
         } catch (e: any) {
@@ -346,6 +669,100 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
                 />
             )}
 
+            {/* Prompt Test Output */}
+            {promptTest && (
+                <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-xl flex items-center justify-center p-2 md:p-4 animate-fade-in">
+                    <div className="bg-dark-900 border border-dark-800 w-full max-w-3xl rounded-[24px] md:rounded-[32px] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+                        <div className="flex items-center gap-3 p-6 border-b border-dark-800">
+                            <h2 className="text-lg md:text-xl font-black text-white tracking-tight flex-1">Prompt <span className="text-brand-500">Test</span></h2>
+                            <select
+                                className="bg-dark-950 border border-dark-700 rounded-xl px-3 py-2 text-white outline-none text-xs max-w-[200px]"
+                                value={promptTest.templateId}
+                                disabled={promptTest.running}
+                                onChange={e => runPromptTest(e.target.value)}
+                            >
+                                {getPromptLibrary(config).templates.filter(t => t.purpose === 'extraction').map(t => (
+                                    <option key={t.id} value={t.id}>{t.name} (v{t.versions[t.versions.length - 1]?.version})</option>
+                                ))}
+                            </select>
+                            <button onClick={() => setPromptTest(null)} className="text-gray-400 hover:text-white w-8 h-8"><i className="fa-solid fa-times text-lg"></i></button>
+                        </div>
+                        <div className="p-6 overflow-y-auto custom-scrollbar space-y-6">
+                            {promptTest.running ? (
+                                <div className="py-16 text-center text-gray-500 text-xs font-black uppercase tracking-widest"><i className="fa-solid fa-spinner fa-spin mr-2"></i> Running Prompt</div>
+                            ) : promptTest.error ? (
+                                <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-[12px] text-red-400">{promptTest.error}</div>
+                            ) : promptTest.result && (
+                                <>
+                                    <div>
+                                        <div className="text-[10px] text-brand-500 font-black uppercase tracking-widest mb-2">Raw Model Output · {config.aiProvider} / {resolveAIModel(config)}</div>
+                                        <pre className="bg-[#1e1e1e] text-blue-300 p-4 rounded-xl font-mono text-[11px] whitespace-pre-wrap break-words border border-white/10">{promptTest.result.rawOutput || '(empty response)'}</pre>
+                                    </div>
+                                    <details>
+                                        <summary className="text-[10px] text-gray-500 font-black uppercase tracking-widest cursor-pointer">Rendered System Prompt · {promptTest.result.templateName} v{promptTest.result.version}</summary>
+                                        <pre className="mt-2 bg-dark-950 text-gray-400 p-4 rounded-xl font-mono text-[11px] whitespace-pre-wrap break-words border border-dark-800">{promptTest.result.systemPrompt}</pre>
+                                    </details>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Claim Safety Review */}
+            {showClaimReview && (
+                <div className="fixed inset-0 z-[100] bg-black/90 backdrop-blur-xl flex items-center justify-center p-2 md:p-4 animate-fade-in">
+                    <div className="bg-dark-900 border border-dark-800 w-full max-w-3xl rounded-[24px] md:rounded-[32px] shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
+                        <div className="flex items-center gap-3 p-6 border-b border-dark-800">
+                            <h2 className="text-lg md:text-xl font-black text-white tracking-tight flex-1">Claim <span className="text-brand-500">Review</span></h2>
+                            <button onClick={() => setShowClaimReview(false)} className="text-gray-400 hover:text-white w-8 h-8"><i className="fa-solid fa-times text-lg"></i></button>
+                        </div>
+                        <div className="p-6 overflow-y-auto custom-scrollbar space-y-4">
+                            {getFlaggedProducts().length === 0 ? (
+                                <div className="py-12 text-center space-y-6">
+                                    <div className="text-emerald-400 text-xs font-black uppercase tracking-widest"><i className="fa-solid fa-shield-halved mr-2"></i> All Claims Cleared</div>
+                                    <button onClick={handlePush} className="px-8 py-4 bg-white text-dark-950 rounded-xl font-black uppercase tracking-[2px] text-xs hover:scale-[1.02] transition-all">
+                                        <i className="fa-solid fa-cloud-arrow-up mr-2"></i> Deploy Live
+                                    </button>
+                                </div>
+                            ) : (
+                                <>
+                                    <p className="text-[11px] text-amber-400 leading-relaxed">
+                                        <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+                                        These statements are not backed by the product data. Soften or strip them, or acknowledge that you have verified them yourself.
+                                    </p>
+                                    {getFlaggedProducts().map(({ product, issues }) => (
+                                        <div key={product.id} className="bg-dark-950 border border-dark-800 rounded-2xl p-4 space-y-3">
+                                            <div className="text-white font-bold text-sm truncate">{product.title}</div>
+                                            <ul className="space-y-2">
+                                                {issues.map((issue, i) => (
+                                                    <li key={i} className="text-[11px] text-gray-400 leading-relaxed">
+                                                        <span className="bg-amber-500/10 text-amber-400 font-black uppercase text-[9px] tracking-wider px-2 py-0.5 rounded mr-2">{issue.kind}</span>
+                                                        <span className="text-gray-500 mr-1">{issue.field}{issue.field === 'verdict' ? '' : ` #${issue.itemIndex + 1}`}:</span>
+                                                        "<span className="text-white">{issue.match}</span>"
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                            <div className="grid grid-cols-3 gap-2">
+                                                <button onClick={() => resolveClaims(product.id, 'soften')} className="bg-dark-800 py-2 rounded-xl text-[10px] font-bold text-gray-300 border border-dark-700 hover:bg-dark-700 transition-colors">
+                                                    <i className="fa-solid fa-feather mr-1"></i> Soften
+                                                </button>
+                                                <button onClick={() => resolveClaims(product.id, 'strip')} className="bg-dark-800 py-2 rounded-xl text-[10px] font-bold text-gray-300 border border-dark-700 hover:text-red-400 transition-colors">
+                                                    <i className="fa-solid fa-eraser mr-1"></i> Strip
+                                                </button>
+                                                <button onClick={() => resolveClaims(product.id, 'acknowledge')} className="bg-dark-800 py-2 rounded-xl text-[10px] font-bold text-gray-300 border border-dark-700 hover:text-emerald-400 transition-colors">
+                                                    <i className="fa-solid fa-check mr-1"></i> Acknowledge
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* --- LEFT CONTROL PANEL (Assets Deck) --- */}
             <div className={`
                 fixed inset-y-0 left-0 w-full sm:w-[420px] bg-[#0b1121] border-r border-dark-800 flex flex-col h-full z-50 shadow-[10px_0_30px_rgba(0,0,0,0.3)] transition-transform duration-500 md:relative md:translate-x-0
@@ -381,13 +798,193 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
                         <h3 className="text-brand-400 font-black uppercase tracking-[4px] text-[10px] md:text-[11px] mb-2">Deep Intelligence</h3>
                         <p className="text-slate-400 text-[11px] md:text-xs mb-6 leading-relaxed">Analyze content DNA to extract monetization nodes.</p>
                         <div className="flex gap-2">
-                             <button onClick={() => { runDeepScan(); setShowAssetsDeck(false); }} disabled={status !== 'idle'} className="flex-1 py-4 bg-brand-600 hover:bg-brand-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2">
+                             <button onClick={runDeepScan} disabled={status !== 'idle'} className="flex-1 py-4 bg-brand-600 hover:bg-brand-500 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg transition-all flex items-center justify-center gap-2">
                                 {status === 'analyzing' ? <i className="fa-solid fa-spinner fa-spin"></i> : <i className="fa-solid fa-bolt"></i>}
                                 <span>Scan</span>
                             </button>
+                            <button onClick={() => { runPromptTest(resolvePromptTemplate(config, 'extraction').id); setShowAssetsDeck(false); }} disabled={status !== 'idle' || promptTest?.running} className="px-4 py-4 bg-dark-800 hover:bg-dark-700 text-gray-300 rounded-xl text-xs font-black uppercase tracking-widest border border-dark-700 transition-all flex items-center justify-center gap-2" title="Test extraction prompt against this post">
+                                {promptTest?.running ? <i className="fa-solid fa-spinner fa-spin"></i> : <i className="fa-solid fa-flask"></i>}
+                            </button>
+                            {primaryProduct && isReviewPost && (
+                                <button onClick={runAlternatives} disabled={status !== 'idle'} className="px-4 py-4 bg-dark-800 hover:bg-dark-700 text-gray-300 rounded-xl text-xs font-black uppercase tracking-widest border border-dark-700 transition-all flex items-center justify-center gap-2" title={`Suggest budget & upgrade alternatives to ${primaryProduct.title}`}>
+                                    {status === 'suggesting' ? <i className="fa-solid fa-spinner fa-spin"></i> : <i className="fa-solid fa-scale-balanced"></i>}
+                                </button>
+                            )}
+                            {shortLinkProducts.length > 0 && (
+                                <button onClick={canonicalizeShortLinks} disabled={status !== 'idle'} className="px-4 py-4 bg-dark-800 hover:bg-dark-700 text-gray-300 rounded-xl text-xs font-black uppercase tracking-widest border border-dark-700 transition-all flex items-center justify-center gap-2" title="Replace resolved amzn.to short links with tagged product links">
+                                    <i className="fa-solid fa-link"></i>
+                                </button>
+                            )}
                         </div>
+
+                        {/* Live Scan Progress */}
+                        {scanSteps.length > 0 && (
+                            <div className="mt-6 space-y-2">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-gray-500 font-black uppercase tracking-[3px] text-[9px]">Pipeline</span>
+                                    {status === 'analyzing' ? (
+                                        <button onClick={() => scanAbortRef.current?.abort()} className="text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-red-300">
+                                            <i className="fa-solid fa-stop mr-1"></i> Cancel
+                                        </button>
+                                    ) : (
+                                        <button onClick={() => setScanSteps([])} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white">
+                                            <i className="fa-solid fa-xmark mr-1"></i> Clear
+                                        </button>
+                                    )}
+                                </div>
+                                <ul className="max-h-56 overflow-y-auto custom-scrollbar space-y-1.5 pr-1">
+                                    {scanSteps.map(step => (
+                                        <li key={step.id} className="flex items-start gap-2 text-[10px] md:text-[11px] leading-snug">
+                                            <i className={`fa-solid ${SCAN_STEP_ICONS[step.state]} w-3 mt-0.5 shrink-0`}></i>
+                                            <div className="min-w-0">
+                                                <div className="text-slate-300 truncate">{step.label}</div>
+                                                {step.detail && <div className="text-gray-500 truncate" title={step.detail}>{step.detail}</div>}
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
                     </div>
 
+                    {/* Content Gap Card */}
+                    <div className="rounded-[24px] md:rounded-[32px] bg-dark-900 border border-dark-700 p-6 md:p-8">
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-amber-400 font-black uppercase tracking-[4px] text-[10px] md:text-[11px]">Content Gaps</h3>
+                            {gapState && (
+                                <button onClick={() => setGapState(null)} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white">
+                                    <i className="fa-solid fa-xmark mr-1"></i> Clear
+                                </button>
+                            )}
+                        </div>
+                        <p className="text-slate-400 text-[11px] md:text-xs mb-6 leading-relaxed">Find missing sections and products against the post's category.</p>
+                        <button onClick={runGapAnalysis} disabled={status !== 'idle'} className="w-full py-3 bg-dark-800 hover:bg-dark-700 text-gray-300 rounded-xl text-xs font-black uppercase tracking-widest border border-dark-700 transition-all flex items-center justify-center gap-2">
+                            {status === 'analyzing-gaps' ? <i className="fa-solid fa-spinner fa-spin"></i> : <i className="fa-solid fa-magnifying-glass-chart"></i>}
+                            <span>Analyze Gaps</span>
+                        </button>
+
+                        {gapState && (
+                            <div className="mt-6 space-y-4">
+                                {gapState.report.category && (
+                                    <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">
+                                        Category: <span className="text-white">{gapState.report.category}</span>
+                                    </div>
+                                )}
+                                {gapState.report.sections.map((section, i) => (
+                                    <div key={`${section.heading}-${i}`} className="flex items-start gap-3 p-3 bg-dark-950 border border-dark-800 rounded-xl">
+                                        <i className="fa-solid fa-heading text-amber-400 text-[10px] mt-1"></i>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-white font-bold text-[11px] md:text-xs">{section.heading}</div>
+                                            <div className="text-gray-500 text-[9px] md:text-[10px]">{section.reason}</div>
+                                        </div>
+                                        <button onClick={() => insertGapSection(i)} className="text-[9px] font-black uppercase tracking-widest text-brand-400 hover:text-brand-300 shrink-0" title="Insert draft section as a new block">
+                                            Insert
+                                        </button>
+                                    </div>
+                                ))}
+                                {gapState.report.products.map((gap, i) => (
+                                    <div key={`${gap.productName}-${i}`} className="flex items-start gap-3 p-3 bg-dark-950 border border-dark-800 rounded-xl">
+                                        <i className="fa-solid fa-box-open text-brand-400 text-[10px] mt-1"></i>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-white font-bold text-[11px] md:text-xs truncate">{gap.productName}</div>
+                                            <div className="text-gray-500 text-[9px] md:text-[10px]">{gap.reason}</div>
+                                        </div>
+                                        <button onClick={() => stageGapProduct(i)} disabled={stagingGap !== null} className="text-[9px] font-black uppercase tracking-widest text-brand-400 hover:text-brand-300 disabled:opacity-40 shrink-0" title="Look up and add to the staging area">
+                                            {stagingGap === gap.productName ? <i className="fa-solid fa-spinner fa-spin"></i> : 'Stage'}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Dead Listings Card */}
+                    {deadListings.length > 0 && (
+                        <div className="rounded-[24px] md:rounded-[32px] bg-dark-900 border border-red-500/20 p-6 md:p-8">
+                            <h3 className="text-red-400 font-black uppercase tracking-[4px] text-[10px] md:text-[11px] mb-2">Dead Listings</h3>
+                            <p className="text-slate-400 text-[11px] md:text-xs mb-6 leading-relaxed">Placed products that can no longer be bought. Swap in a same-category replacement, then deploy.</p>
+                            <div className="space-y-4">
+                                {deadListings.map(listing => (
+                                    <div key={listing.product.id} className="p-3 bg-dark-950 border border-dark-800 rounded-xl space-y-3">
+                                        <div className="flex items-start gap-3">
+                                            <i className="fa-solid fa-ban text-red-400 text-[10px] mt-1"></i>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="text-white font-bold text-[11px] md:text-xs truncate">{listing.product.title}</div>
+                                                <div className="text-gray-500 text-[9px] md:text-[10px] uppercase tracking-widest font-black">
+                                                    {listing.status === 'discontinued' ? 'Listing removed' : 'Out of stock'} · {listing.product.asin}
+                                                </div>
+                                            </div>
+                                            <button onClick={() => dismissDeadListing(listing)} className="text-[9px] font-black uppercase tracking-widest text-gray-500 hover:text-white shrink-0" title="Keep this product and hide the warning">
+                                                Dismiss
+                                            </button>
+                                        </div>
+                                        {listing.replacements.length === 0 ? (
+                                            <div className="text-gray-600 text-[9px] md:text-[10px]">No in-stock replacement found in this category.</div>
+                                        ) : listing.replacements.map(r => (
+                                            <div key={r.id} className="flex items-center gap-3 pl-5">
+                                                <img src={r.imageUrl} className="w-8 h-8 object-contain bg-white rounded-md p-0.5 shrink-0" />
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-slate-300 text-[10px] md:text-[11px] truncate" title={r.title}>{r.title}</div>
+                                                    <div className="text-brand-400 text-[9px] md:text-[10px] font-black tracking-wider">{r.price}</div>
+                                                </div>
+                                                <button onClick={() => swapDeadListing(listing, r)} disabled={!!swappingId} className="text-[9px] font-black uppercase tracking-widest text-brand-400 hover:text-brand-300 shrink-0 disabled:opacity-50" title="Replace the dead product everywhere in this post">
+                                                    {swappingId === r.id ? <i className="fa-solid fa-spinner fa-spin"></i> : 'Swap'}
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Amazon Match Card */}
+                    {matchableProducts.length > 0 && (
+                        <div className="rounded-[24px] md:rounded-[32px] bg-dark-900 border border-dark-700 p-6 md:p-8">
+                            <h3 className="text-sky-400 font-black uppercase tracking-[4px] text-[10px] md:text-[11px] mb-2">Amazon Matches</h3>
+                            <p className="text-slate-400 text-[11px] md:text-xs mb-6 leading-relaxed">Products found by name. Pick the right listing; the choice is reused on future scans.</p>
+                            <div className="space-y-3">
+                                {matchableProducts.map(p => (
+                                    <div key={p.id} className="p-3 bg-dark-950 border border-dark-800 rounded-xl space-y-3">
+                                        <div className="flex items-start gap-3">
+                                            <i className="fa-solid fa-magnifying-glass text-sky-400 text-[10px] mt-1"></i>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="text-white font-bold text-[11px] md:text-xs truncate" title={p.title}>{p.lookupQuery}</div>
+                                                <div className="text-gray-500 text-[9px] md:text-[10px] truncate">{p.asin || 'No match'} · {p.title}</div>
+                                            </div>
+                                            <button onClick={() => openCandidatePicker(p)} className="text-[9px] font-black uppercase tracking-widest text-brand-400 hover:text-brand-300 shrink-0" title="Show the top search matches">
+                                                {picker?.productId === p.id ? (picker.candidates ? 'Close' : <i className="fa-solid fa-spinner fa-spin"></i>) : 'Change'}
+                                            </button>
+                                        </div>
+                                        {picker?.productId === p.id && picker.candidates && (
+                                            picker.candidates.length === 0 ? (
+                                                <div className="text-gray-600 text-[9px] md:text-[10px] pl-5">No search results for this query.</div>
+                                            ) : picker.candidates.map(c => (
+                                                <div key={c.asin} className={`flex items-center gap-3 pl-5 ${c.asin === p.asin ? 'opacity-60' : ''}`}>
+                                                    {c.imageUrl ? <img src={c.imageUrl} className="w-8 h-8 object-contain bg-white rounded-md p-0.5 shrink-0" /> : <div className="w-8 h-8 bg-dark-800 rounded-md shrink-0"></div>}
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="text-slate-300 text-[10px] md:text-[11px] truncate" title={c.title}>{c.title}</div>
+                                                        <div className="text-[9px] md:text-[10px] font-black tracking-wider">
+                                                            <span className={c.score >= 0.8 ? 'text-emerald-400' : c.score >= 0.5 ? 'text-amber-400' : 'text-red-400'}>{Math.round(c.score * 100)}% match</span>
+                                                            <span className="text-gray-500"> · {c.asin}{c.price ? ` · ${c.price}` : ''}</span>
+                                                        </div>
+                                                    </div>
+                                                    {c.asin === p.asin ? (
+                                                        <span className="text-[9px] font-black uppercase tracking-widest text-gray-500 shrink-0">Current</span>
+                                                    ) : (
+                                                        <button onClick={() => chooseCandidate(p, c)} disabled={applyingCandidate !== null} className="text-[9px] font-black uppercase tracking-widest text-brand-400 hover:text-brand-300 disabled:opacity-40 shrink-0">
+                                                            {applyingCandidate === c.asin ? <i className="fa-solid fa-spinner fa-spin"></i> : 'Use'}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Draggable/Injectable Assets */}
                     <div>
                         <div className="flex items-center justify-between mb-6">
@@ -407,7 +1004,24 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
                                         <img src={p.imageUrl} className="w-10 h-10 md:w-12 md:h-12 object-contain bg-white rounded-lg p-1" />
                                         <div className="flex-1 min-w-0">
                                             <div className="text-white font-bold text-xs md:text-sm truncate">{p.title}</div>
-                                            <div className="text-brand-400 text-[9px] md:text-[10px] font-black tracking-wider">{p.price}</div>
+                                            <div className="text-brand-400 text-[9px] md:text-[10px] font-black tracking-wider">
+                                                {p.price}
+                                                {p.dataSource && (
+                                                    <span className="ml-2 px-2 py-0.5 rounded-full uppercase text-[8px] bg-dark-800 text-gray-400" title={describeFieldSources(p)}>
+                                                        {p.dataSource}
+                                                    </span>
+                                                )}
+                                                {p.role && p.role !== 'primary' && (
+                                                    <span className={`ml-2 px-2 py-0.5 rounded-full uppercase text-[8px] ${p.role === 'budget' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-violet-500/10 text-violet-400'}`}>
+                                                        {p.role === 'budget' ? 'Budget Pick' : 'Upgrade Pick'}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            {p.placementRationale && (
+                                                <div className="text-gray-500 text-[9px] md:text-[10px] truncate" title={p.placementRationale}>
+                                                    <i className="fa-solid fa-location-crosshairs mr-1"></i>#{p.recommendedBlockIndex} · {p.placementRationale}
+                                                </div>
+                                            )}
                                         </div>
                                         <button 
                                             onClick={() => { smartInjectProduct(p.id); setShowAssetsDeck(false); }} 
@@ -528,7 +1142,7 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, config, onBack })
                                             ) : (
                                                 node.productId && productMap[node.productId] ? (
                                                     <div className="relative">
-                                                        <ProductBoxPreview product={productMap[node.productId]} affiliateTag={config.amazonTag} mode={productMap[node.productId].deploymentMode} />
+                                                        <ProductBoxPreview product={productMap[node.productId]} affiliateTag={config.amazonTag} mode={productMap[node.productId].deploymentMode} geoTargets={config.geoTargets} />
                                                         
                                                         {/* Product Specific Controls */}
                                                         {hoveredNode === node.id && (
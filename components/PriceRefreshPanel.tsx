@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { AppConfig, PriceRefreshReport, DeadListingReport } from '../types';
+import { getPlacementLedger, getLastRefreshReport, refreshPlacedProducts, getDeadListingReport, checkPlacedListings } from '../utils';
+import Toastify from 'toastify-js';
+
+interface PriceRefreshPanelProps {
+  /** Saved config the run uses, so keys stay in their stored form */
+  config: AppConfig;
+  hours: number;
+  onHoursChange: (hours: number) => void;
+}
+
+const StatCard: React.FC<{ label: string; value: number | string }> = ({ label, value }) => (
+  <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl">
+    <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest mb-2">{label}</div>
+    <div className="text-2xl font-black text-white tracking-tight">{value}</div>
+  </div>
+);
+
+export const PriceRefreshPanel: React.FC<PriceRefreshPanelProps> = ({ config, hours, onHoursChange }) => {
+  const [report, setReport] = useState<PriceRefreshReport | null>(() => getLastRefreshReport());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [listingReport, setListingReport] = useState<DeadListingReport | null>(() => getDeadListingReport());
+  const [listingProgress, setListingProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const tracked = Object.keys(getPlacementLedger()).length;
+  const priceChanges = report?.changes.filter(c => c.field === 'price') || [];
+  const otherChanges = report?.changes.filter(c => c.field !== 'price') || [];
+
+  const handleRun = async () => {
+    setProgress({ done: 0, total: tracked });
+    try {
+      const result = await refreshPlacedProducts(config, (done, total) => setProgress({ done, total }));
+      setReport(result);
+      Toastify({
+        text: `Refreshed ${result.postsChecked} posts · ${result.boxesUpdated} boxes updated`,
+        backgroundColor: "#10b981",
+      }).showToast();
+    } catch (error: any) {
+      Toastify({ text: error.message, backgroundColor: "#ef4444" }).showToast();
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleCheckListings = async () => {
+    setListingProgress({ done: 0, total: tracked });
+    try {
+      const result = await checkPlacedListings(config, (done, total) => setListingProgress({ done, total }));
+      setListingReport(result);
+      Toastify({
+        text: result.listings.length ? `${result.listings.length} dead listings found` : 'All placed products are available',
+        backgroundColor: result.listings.length ? "#f59e0b" : "#10b981",
+      }).showToast();
+    } catch (error: any) {
+      Toastify({ text: error.message, backgroundColor: "#ef4444" }).showToast();
+    } finally {
+      setListingProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard label="Tracked Posts" value={tracked} />
+        <StatCard label="Last Run" value={report ? new Date(report.finishedAt).toLocaleString() : 'Never'} />
+      </div>
+
+      <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <label className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Refresh Every (Hours)</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={hours || ''}
+            placeholder="Manual"
+            onChange={e => onHoursChange(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="w-32 bg-dark-900 border border-dark-700 rounded-xl px-3 py-2 text-white outline-none text-sm text-right"
+          />
+        </div>
+        <p className="text-[10px] text-gray-500">Runs while the app is open. Only boxes whose rendered price, rating or reviews changed are re-pushed; availability changes are recorded for the dead listing check.</p>
+        <p className="text-[10px] text-gray-500">Tracks boxes pushed from this browser's editor only. Boxes already in monetized posts from before tracking, or placed by other tools, are not discovered; re-place those boxes in the editor and push to track them.</p>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleRun}
+        disabled={!!progress || tracked === 0}
+        className="w-full bg-dark-800 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors disabled:opacity-50"
+      >
+        {progress
+          ? <><i className="fa-solid fa-circle-notch fa-spin mr-2"></i> Checking {progress.done}/{progress.total}</>
+          : <><i className="fa-solid fa-arrows-rotate mr-2"></i> Run Now</>}
+      </button>
+
+      {report && (
+        <>
+          <div className="text-[10px] text-gray-500">
+            {report.postsChecked} posts checked · {report.postsUpdated} updated · {report.boxesUpdated} boxes re-pushed
+          </div>
+
+          {priceChanges.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Price Changes</div>
+              {priceChanges.map((c, i) => (
+                <div key={`${c.postId}-${c.asin}-${i}`} className="flex items-center justify-between p-3 bg-dark-950 border border-amber-500/30 rounded-xl text-[11px]">
+                  <span className="text-gray-400 truncate mr-3">
+                    <span className="font-bold text-white">{c.productTitle}</span> · {c.postTitle}
+                  </span>
+                  <span className="shrink-0 font-mono">
+                    <span className="text-gray-500 line-through">{c.before || '—'}</span> <span className="text-amber-400 font-bold">{c.after}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {otherChanges.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Other Changes</div>
+              {otherChanges.map((c, i) => (
+                <div key={`${c.postId}-${c.asin}-${c.field}-${i}`} className="flex items-center justify-between p-3 bg-dark-950 border border-dark-800 rounded-xl text-[11px]">
+                  <span className="text-gray-400 truncate mr-3">
+                    <span className="font-bold text-white uppercase text-[10px] tracking-wider">{c.field}</span> · {c.productTitle}
+                  </span>
+                  <span className="text-gray-400 shrink-0 font-mono">{c.before || '—'} → <span className="text-white">{c.after}</span></span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.changes.length === 0 && (
+            <div className="p-3 bg-dark-950 border border-dark-800 rounded-xl text-[11px] text-gray-500">No changes since the last push.</div>
+          )}
+
+          {report.issues.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Issues</div>
+              {report.issues.map((issue, i) => (
+                <div key={`${issue.postId}-${i}`} className="p-3 bg-dark-950 border border-red-500/20 rounded-xl text-[11px] text-gray-400">
+                  <span className="font-bold text-white">{issue.postTitle}</span> · {issue.message}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <label className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Dead Listings</label>
+          <span className="text-[10px] text-gray-500">
+            {listingReport ? `Checked ${new Date(listingReport.checkedAt).toLocaleString()}` : 'Never checked'}
+          </span>
+        </div>
+        <p className="text-[10px] text-gray-500">Flags placed products that are out of stock or no longer listed, with same-category replacements. Swap them from the post editor.</p>
+        <button
+          type="button"
+          onClick={handleCheckListings}
+          disabled={!!listingProgress || tracked === 0}
+          className="w-full bg-dark-800 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors disabled:opacity-50"
+        >
+          {listingProgress
+            ? <><i className="fa-solid fa-circle-notch fa-spin mr-2"></i> Checking {listingProgress.done}/{listingProgress.total}</>
+            : <><i className="fa-solid fa-ban mr-2"></i> Check Listings</>}
+        </button>
+      </div>
+
+      {listingReport && listingReport.listings.length > 0 && (
+        <div className="space-y-2">
+          {listingReport.listings.map(l => (
+            <div key={`${l.postId}-${l.product.id}`} className="flex items-center justify-between p-3 bg-dark-950 border border-red-500/20 rounded-xl text-[11px]">
+              <span className="text-gray-400 truncate mr-3">
+                <span className="font-bold text-white">{l.product.title}</span> · {l.postTitle}
+              </span>
+              <span className="shrink-0 text-gray-400">
+                <span className="text-red-400 font-bold uppercase text-[10px] tracking-wider">{l.status === 'discontinued' ? 'Removed' : 'Out of stock'}</span> · {l.replacements.length} replacements
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,6 +7,7 @@
  * - Dual Deployment Modes (ELITE_BENTO / TACTICAL_LINK)
  * - Premium Visual Design with Micro-Animations
  * - Expandable FAQ Section
+ * - Per-Country Geo Link Variants
  * - Trust Signal Footer
  * - Responsive Design
  * - Error State Handling
@@ -14,7 +15,8 @@
  */
 
 import React, { useState, useMemo } from 'react';
-import { ProductDetails, DeploymentMode, FAQItem } from '../types';
+import { ProductDetails, DeploymentMode, FAQItem, GeoTarget } from '../types';
+import { getBoxLocale, getRoleBadgeLabel, buildAmazonLink, getGeoLinks } from '../utils';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -24,40 +26,13 @@ interface ProductBoxPreviewProps {
   product: ProductDetails;
   affiliateTag?: string;
   mode?: DeploymentMode;
+  geoTargets?: GeoTarget[];
 }
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const DEFAULT_BULLETS = [
-  "Premium build quality with attention to detail",
-  "Industry-leading performance metrics", 
-  "Backed by comprehensive warranty",
-  "Trusted by thousands of verified buyers"
-];
-
-const DEFAULT_FAQS: FAQItem[] = [
-  { 
-    question: "Is this product covered by warranty?", 
-    answer: "Yes, this product comes with a comprehensive manufacturer warranty for complete peace of mind." 
-  },
-  { 
-    question: "How does shipping work?", 
-    answer: "Eligible for fast Prime shipping with free returns within 30 days." 
-  },
-  { 
-    question: "What's included in the package?", 
-    answer: "Complete package includes the main product, all necessary accessories, and detailed documentation." 
-  },
-  { 
-    question: "Is customer support available?", 
-    answer: "24/7 customer support available through phone, email, and live chat for any assistance." 
-  }
-];
-
-const DEFAULT_VERDICT = "Engineered for discerning users who demand excellence, this premium product delivers professional-grade performance with meticulous attention to detail. Backed by thousands of verified reviews and trusted by industry professionals worldwide.";
-
 const TRUST_SIGNALS = [
   { icon: 'fa-amazon', text: 'Amazon Verified', isBrand: true },
   { icon: 'fa-shield-halved', text: 'Secure Checkout', isBrand: false },
@@ -111,38 +86,46 @@ const TacticalLink: React.FC<TacticalLinkProps> = ({
   stars,
   onImageError
 }) => {
+  const t = getBoxLocale(product.language);
+
   return (
     <div className="w-full max-w-[900px] mx-auto my-12 px-4 font-sans">
       <div className="relative bg-white border border-slate-100 rounded-[24px] p-6 shadow-[0_1px_3px_rgba(0,0,0,0.05),0_10px_40px_-10px_rgba(0,0,0,0.04)] hover:shadow-[0_20px_60px_-15px_rgba(0,0,0,0.1)] hover:border-slate-200 transition-all duration-500 flex flex-col sm:flex-row items-center gap-8 group">
         
         {/* Image Box */}
-        <div className="w-32 h-32 bg-slate-50 rounded-[20px] flex items-center justify-center p-3 flex-shrink-0 relative overflow-hidden">
-          <img 
-            src={imageSrc} 
-            className="max-h-full max-w-full object-contain mix-blend-multiply transition-transform duration-700 group-hover:scale-110" 
-            alt={product.title}
-            onError={onImageError}
-            loading="lazy"
-          />
-        </div>
+        {imageSrc && (
+          <div className="w-32 h-32 bg-slate-50 rounded-[20px] flex items-center justify-center p-3 flex-shrink-0 relative overflow-hidden">
+            <img 
+              src={imageSrc} 
+              className="max-h-full max-w-full object-contain mix-blend-multiply transition-transform duration-700 group-hover:scale-110" 
+              alt={product.title}
+              onError={onImageError}
+              loading="lazy"
+            />
+          </div>
+        )}
 
         {/* Body */}
         <div className="flex-1 min-w-0 text-center sm:text-left">
           <div className="inline-flex items-center gap-1.5 bg-slate-100 text-slate-600 text-[10px] font-black uppercase tracking-wider px-3 py-1 rounded-full mb-3">
             <i className="fa-solid fa-check text-[8px]" />
-            Verified Choice
+            {getRoleBadgeLabel(t, product.role, t.verifiedChoice)}
           </div>
           <h3 className="text-xl font-black text-slate-900 leading-tight mb-2 line-clamp-2">
             {product.title}
           </h3>
-          <div className="flex items-center justify-center sm:justify-start gap-2">
-            <div className="flex text-amber-400 text-sm">
-              {'★'.repeat(stars)}{'☆'.repeat(5-stars)}
+          {product.rating ? (
+            <div className="flex items-center justify-center sm:justify-start gap-2">
+              <div className="flex text-amber-400 text-sm">
+                {'★'.repeat(stars)}{'☆'.repeat(5-stars)}
+              </div>
+              {product.reviewCount ? (
+                <span className="text-[11px] font-bold text-slate-400">
+                  {t.reviews(String(product.reviewCount))}
+                </span>
+              ) : null}
             </div>
-            <span className="text-[11px] font-bold text-slate-400">
-              {product.reviewCount || '1,200'}+ reviews
-            </span>
-          </div>
+          ) : null}
         </div>
 
         {/* Side/Action */}
@@ -156,7 +139,7 @@ const TacticalLink: React.FC<TacticalLinkProps> = ({
             rel="nofollow sponsored noopener"
             className="w-full sm:w-auto px-6 py-3 bg-slate-900 text-white text-xs font-black uppercase tracking-widest rounded-xl hover:bg-blue-600 transition-all duration-300 shadow-xl hover:shadow-blue-500/30 flex items-center justify-center gap-2 group/btn"
           >
-            View Deal 
+            {t.viewDeal} 
             <i className="fa-solid fa-arrow-right group-hover/btn:translate-x-1 transition-transform" />
           </a>
         </div>
@@ -191,6 +174,7 @@ const EliteBento: React.FC<EliteBentoProps> = ({
   onImageError
 }) => {
   const [expandedFaq, setExpandedFaq] = useState<number | null>(null);
+  const t = getBoxLocale(product.language);
 
   return (
     <div className="w-full max-w-[1000px] mx-auto my-20 font-sans text-slate-900 leading-relaxed group animate-fade-in px-4">
@@ -203,39 +187,43 @@ const EliteBento: React.FC<EliteBentoProps> = ({
           {/* Visual Section */}
           <div className="bg-gradient-to-br from-slate-50 to-white p-12 lg:p-16 flex flex-col items-center justify-center relative border-b lg:border-b-0 lg:border-r border-slate-100">
             <div className="absolute top-8 left-8 bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest px-5 py-2 rounded-full shadow-lg">
-              Top Pick
+              {getRoleBadgeLabel(t, product.role, t.topPick)}
             </div>
             
-            <div className="w-full max-w-[320px] aspect-square flex items-center justify-center relative my-8">
-              <img 
-                src={imageSrc} 
-                alt={product.title}
-                onError={onImageError}
-                loading="lazy"
-                className="max-h-full max-w-full object-contain drop-shadow-[0_30px_60px_rgba(0,0,0,0.12)] transition-all duration-1000 group-hover:scale-110 group-hover:-translate-y-2 group-hover:rotate-2"
-              />
-            </div>
+            {imageSrc && (
+              <div className="w-full max-w-[320px] aspect-square flex items-center justify-center relative my-8">
+                <img 
+                  src={imageSrc} 
+                  alt={product.title}
+                  onError={onImageError}
+                  loading="lazy"
+                  className="max-h-full max-w-full object-contain drop-shadow-[0_30px_60px_rgba(0,0,0,0.12)] transition-all duration-1000 group-hover:scale-110 group-hover:-translate-y-2 group-hover:rotate-2"
+                />
+              </div>
+            )}
             
-            <div className="bg-white border border-slate-100 px-5 py-2.5 rounded-full flex items-center gap-3 shadow-sm mt-8">
-              <div className="flex text-amber-400 text-sm">
-                {'★'.repeat(stars)}{'☆'.repeat(5-stars)}
+            {product.rating ? (
+              <div className="bg-white border border-slate-100 px-5 py-2.5 rounded-full flex items-center gap-3 shadow-sm mt-8">
+                <div className="flex text-amber-400 text-sm">
+                  {'★'.repeat(stars)}{'☆'.repeat(5-stars)}
+                </div>
+                <span className="text-xs font-black text-slate-900">
+                  {product.rating} / 5.0
+                </span>
               </div>
-              <span className="text-xs font-black text-slate-900">
-                {product.rating || '4.9'} / 5.0
-              </span>
-            </div>
+            ) : null}
           </div>
 
           {/* Content Section */}
           <div className="p-12 lg:p-16 flex flex-col">
             <div className="flex items-center gap-3 mb-6">
               <span className="text-[10px] font-black uppercase tracking-widest text-indigo-600 bg-indigo-50 px-4 py-1.5 rounded-full">
-                {product.category || "Premium"}
+                {product.category || t.defaultCategory}
               </span>
               {product.prime && (
                 <span className="text-[10px] font-black text-emerald-600 flex items-center gap-1">
                   <i className="fa-solid fa-check text-[8px]" />
-                  Prime Shipping
+                  {t.primeShipping}
                 </span>
               )}
             </div>
@@ -249,22 +237,24 @@ const EliteBento: React.FC<EliteBentoProps> = ({
             </div>
 
             {/* Features Grid */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-12">
-              {bullets.map((bullet, idx) => (
-                <div key={idx} className="flex items-center gap-3">
-                  <div className="w-6 h-6 rounded-full bg-emerald-500 text-white flex items-center justify-center flex-shrink-0">
-                    <i className="fa-solid fa-check text-[10px]" />
+            {bullets.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-12">
+                {bullets.map((bullet, idx) => (
+                  <div key={idx} className="flex items-center gap-3">
+                    <div className="w-6 h-6 rounded-full bg-emerald-500 text-white flex items-center justify-center flex-shrink-0">
+                      <i className="fa-solid fa-check text-[10px]" />
+                    </div>
+                    <span className="text-sm font-bold text-slate-700">{bullet}</span>
                   </div>
-                  <span className="text-sm font-bold text-slate-700">{bullet}</span>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
+            )}
 
             {/* Footer Action */}
             <div className="mt-auto pt-10 border-t border-slate-100 flex flex-col sm:flex-row items-center justify-between gap-8">
               <div className="text-center sm:text-left">
                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1 block">
-                  Best Price
+                  {t.bestPrice}
                 </span>
                 <div className="text-5xl font-black text-slate-900 tracking-tighter">
                   {product.price}
@@ -277,7 +267,7 @@ const EliteBento: React.FC<EliteBentoProps> = ({
                 rel="nofollow sponsored noopener"
                 className="w-full sm:w-auto px-12 py-5 bg-slate-900 text-white text-sm font-black uppercase tracking-widest rounded-3xl shadow-[0_20px_40px_-10px_rgba(15,23,42,0.3)] hover:bg-blue-600 hover:-translate-y-1 hover:shadow-[0_25px_50px_-10px_rgba(37,99,235,0.4)] transition-all duration-300 flex items-center justify-center gap-3 group/btn"
               >
-                Check Price
+                {t.checkPrice}
                 <i className="fa-solid fa-arrow-right group-hover/btn:translate-x-1 transition-transform" />
               </a>
             </div>
@@ -289,7 +279,7 @@ const EliteBento: React.FC<EliteBentoProps> = ({
           <div className="bg-slate-50 p-12 lg:p-16 border-t border-slate-100">
             <h3 className="text-xl font-black mb-8 flex items-center gap-3">
               <i className="fa-solid fa-circle-question text-slate-400" />
-              Common Questions
+              {t.commonQuestions}
             </h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
               {faqs.map((faq, idx) => (
@@ -318,6 +308,34 @@ const EliteBento: React.FC<EliteBentoProps> = ({
   );
 };
 
+// ============================================================================
+// GEO VARIANT SWITCHER
+// ============================================================================
+
+interface GeoVariantBarProps {
+  countries: string[];
+  active: string;
+  link: string;
+  onSelect: (country: string) => void;
+}
+
+const GeoVariantBar: React.FC<GeoVariantBarProps> = ({ countries, active, link, onSelect }) => (
+  <div className="max-w-[900px] mx-auto px-4 mt-4 flex items-center gap-2 flex-wrap text-[10px] font-black uppercase tracking-widest">
+    <i className="fa-solid fa-globe text-slate-400" />
+    {['', ...countries].map(country => (
+      <button
+        key={country || 'default'}
+        type="button"
+        onClick={() => onSelect(country)}
+        className={`px-3 py-1 rounded-full border transition-colors ${active === country ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}
+      >
+        {country || 'Default'}
+      </button>
+    ))}
+    <span className="text-slate-400 normal-case tracking-normal font-mono truncate">{link}</span>
+  </div>
+);
+
 // ============================================================================
 // MAIN COMPONENT EXPORT
 // ============================================================================
@@ -325,64 +343,74 @@ const EliteBento: React.FC<EliteBentoProps> = ({
 export const ProductBoxPreview: React.FC<ProductBoxPreviewProps> = ({ 
   product, 
   affiliateTag = 'tag-20', 
-  mode = 'ELITE_BENTO' 
+  mode = 'ELITE_BENTO',
+  geoTargets = []
 }) => {
   const [imgError, setImgError] = useState(false);
+  const [previewCountry, setPreviewCountry] = useState('');
   
   // Computed values
-  const stars = Math.round(product.rating || 5);
-  const amazonLink = `https://www.amazon.com/dp/${product.asin || "B08N5M7S6K"}?tag=${affiliateTag}`;
+  const stars = Math.max(0, Math.min(5, Math.round(product.rating || 0)));
+  const geoLinks = useMemo(() => getGeoLinks(product, geoTargets), [product, geoTargets]);
+  const amazonLink = geoLinks[previewCountry] || buildAmazonLink(product.asin || "B08N5M7S6K", affiliateTag, product.marketplace);
+  const geoBar = Object.keys(geoLinks).length > 0 && (
+    <GeoVariantBar countries={Object.keys(geoLinks)} active={geoLinks[previewCountry] ? previewCountry : ''} link={amazonLink} onSelect={setPreviewCountry} />
+  );
 
-  const imageSrc = imgError 
+  // No image without a sourced one, as in the pushed box
+  const imageSrc = !product.imageUrl ? '' : imgError 
     ? `https://via.placeholder.com/800x800.png?text=${encodeURIComponent(product.brand || 'Product')}` 
-    : (product.imageUrl || 'https://via.placeholder.com/800x800.png?text=Acquiring+Asset');
+    : product.imageUrl;
+
+  const t = getBoxLocale(product.language);
 
-  // Memoized values for performance
+  // Memoized values for performance; mirrors the pushed box, which has no canned bullets or FAQs
   const bullets = useMemo(() => {
-    return (product.evidenceClaims && product.evidenceClaims.length >= 4)
-      ? product.evidenceClaims.slice(0, 4)
-      : DEFAULT_BULLETS;
-  }, [product.evidenceClaims]);
+    if (product.evidenceClaims?.length) return product.evidenceClaims.slice(0, 4);
+    return (product.pros || []).slice(0, 4);
+  }, [product.evidenceClaims, product.pros]);
 
-  const faqs = useMemo(() => {
-    return (product.faqs && product.faqs.length >= 4)
-      ? product.faqs.slice(0, 4)
-      : DEFAULT_FAQS;
-  }, [product.faqs]);
+  const faqs = useMemo(() => (product.faqs || []).slice(0, 4), [product.faqs]);
 
   const verdict = useMemo(() => {
     return (product.verdict && product.verdict.length > 30)
       ? product.verdict
-      : DEFAULT_VERDICT;
-  }, [product.verdict]);
+      : t.defaultVerdict;
+  }, [product.verdict, t]);
 
   const handleImageError = () => setImgError(true);
 
   // Render based on mode
   if (mode === 'TACTICAL_LINK') {
     return (
-      <TacticalLink
+      <>
+        {geoBar}
+        <TacticalLink
+          product={product}
+          amazonLink={amazonLink}
+          imageSrc={imageSrc}
+          stars={stars}
+          verdict={verdict}
+          onImageError={handleImageError}
+        />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {geoBar}
+      <EliteBento
         product={product}
         amazonLink={amazonLink}
         imageSrc={imageSrc}
         stars={stars}
         verdict={verdict}
+        bullets={bullets}
+        faqs={faqs}
         onImageError={handleImageError}
       />
-    );
-  }
-
-  return (
-    <EliteBento
-      product={product}
-      amazonLink={amazonLink}
-      imageSrc={imageSrc}
-      stars={stars}
-      verdict={verdict}
-      bullets={bullets}
-      faqs={faqs}
-      onImageError={handleImageError}
-    />
+    </>
   );
 };
 
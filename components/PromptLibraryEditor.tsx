@@ -0,0 +1,147 @@
+
+import React, { useState } from 'react';
+import { PromptLibrary, PromptPurpose } from '../types';
+import {
+  PROMPT_VARIABLES,
+  savePromptVersion,
+  createPromptTemplate,
+  deletePromptTemplate,
+  setSitePromptDefault,
+} from '../utils';
+import Toastify from 'toastify-js';
+
+interface PromptLibraryEditorProps {
+  library: PromptLibrary;
+  siteKey: string;
+  onChange: (library: PromptLibrary) => void;
+}
+
+const latestBody = (library: PromptLibrary, id: string) => {
+  const template = library.templates.find(t => t.id === id);
+  return template?.versions[template.versions.length - 1]?.body || '';
+};
+
+export const PromptLibraryEditor: React.FC<PromptLibraryEditorProps> = ({ library, siteKey, onChange }) => {
+  const [purpose, setPurpose] = useState<PromptPurpose>('extraction');
+  const templates = library.templates.filter(t => t.purpose === purpose);
+  const siteDefaultId = library.siteDefaults[siteKey]?.[purpose];
+  const [selectedId, setSelectedId] = useState<string>(siteDefaultId || templates[0]?.id || '');
+  const [draft, setDraft] = useState<string>(() => latestBody(library, selectedId));
+  const [newName, setNewName] = useState('');
+
+  const selected = library.templates.find(t => t.id === selectedId);
+  const isDirty = !!selected && draft !== latestBody(library, selectedId);
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    setDraft(latestBody(library, id));
+  };
+
+  const switchPurpose = (next: PromptPurpose) => {
+    setPurpose(next);
+    const nextId = library.siteDefaults[siteKey]?.[next] || library.templates.find(t => t.purpose === next)?.id || '';
+    selectTemplate(nextId);
+  };
+
+  const handleSaveVersion = () => {
+    if (!selected) return;
+    if (selected.builtIn) {
+      Toastify({ text: "Built-in prompts are read-only. Save as a new template.", backgroundColor: "#f59e0b" }).showToast();
+      return;
+    }
+    onChange(savePromptVersion(library, selected.id, draft));
+    Toastify({ text: `Saved v${(selected.versions[selected.versions.length - 1]?.version || 0) + 1}`, backgroundColor: "#10b981" }).showToast();
+  };
+
+  const handleCreate = () => {
+    const { library: next, template } = createPromptTemplate(library, newName, purpose, draft);
+    onChange(next);
+    setSelectedId(template.id);
+    setNewName('');
+    Toastify({ text: `Created "${template.name}"`, backgroundColor: "#10b981" }).showToast();
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    const next = deletePromptTemplate(library, selected.id);
+    onChange(next);
+    selectTemplate(next.templates.find(t => t.purpose === purpose)?.id || '');
+  };
+
+  const handleSetDefault = () => {
+    if (!selected) return;
+    onChange(setSitePromptDefault(library, siteKey, purpose, selected.id));
+    Toastify({ text: `Default for ${siteKey}: ${selected.name}`, backgroundColor: "#10b981" }).showToast();
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex bg-dark-950 p-1 rounded-xl border border-dark-700">
+        {(['extraction', 'verdict'] as PromptPurpose[]).map(p => (
+          <button key={p} type="button" onClick={() => switchPurpose(p)} className={`flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${purpose === p ? 'bg-white text-dark-950' : 'text-gray-500'}`}>
+            {p === 'extraction' ? 'Extraction' : 'Verdict Formula'}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <select className="flex-1 bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white outline-none text-sm" value={selectedId} onChange={e => selectTemplate(e.target.value)}>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>
+              {t.name} (v{t.versions[t.versions.length - 1]?.version}){t.id === siteDefaultId ? ' ★' : ''}
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={handleSetDefault} disabled={!selected || selected.id === siteDefaultId} className="bg-dark-800 px-4 rounded-xl text-[10px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 disabled:opacity-40 transition-colors" title={`Use for ${siteKey}`}>
+          <i className="fa-solid fa-star mr-1"></i> Site Default
+        </button>
+        {selected && !selected.builtIn && (
+          <button type="button" onClick={handleDelete} className="bg-dark-800 w-11 rounded-xl text-gray-400 border border-dark-700 hover:text-red-400 transition-colors" title="Delete Template">
+            <i className="fa-solid fa-trash-can text-xs"></i>
+          </button>
+        )}
+      </div>
+
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        className="w-full h-64 bg-dark-950 border border-dark-700 rounded-xl px-4 py-3 text-white font-mono text-[11px] leading-relaxed outline-none focus:border-brand-500 resize-y custom-scrollbar"
+        spellCheck={false}
+      />
+
+      {PROMPT_VARIABLES[purpose].length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {PROMPT_VARIABLES[purpose].map(v => (
+            <span key={v} className="bg-dark-800 text-brand-400 font-mono text-[10px] px-2 py-1 rounded-md">{`{${v}}`}</span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <button type="button" onClick={handleSaveVersion} disabled={!isDirty} className="bg-dark-800 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 disabled:opacity-40 transition-colors">
+          <i className="fa-solid fa-code-commit mr-2"></i> Save New Version
+        </button>
+        <div className="flex gap-2">
+          <input type="text" value={newName} onChange={e => setNewName(e.target.value)} placeholder="New template name (e.g. Pet Niche)" className="flex-1 min-w-0 bg-dark-950 border border-dark-700 rounded-xl px-3 py-3 text-white outline-none text-xs" />
+          <button type="button" onClick={handleCreate} disabled={!newName.trim()} className="bg-brand-600 px-4 rounded-xl text-[11px] font-bold text-white hover:bg-brand-500 disabled:opacity-40 transition-colors">
+            <i className="fa-solid fa-plus"></i>
+          </button>
+        </div>
+      </div>
+
+      {selected && selected.versions.length > 1 && (
+        <div className="space-y-2">
+          <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Version History</div>
+          {[...selected.versions].reverse().map(v => (
+            <div key={v.version} className="flex items-center justify-between p-3 bg-dark-950 border border-dark-800 rounded-xl">
+              <span className="text-[11px] text-gray-400">
+                <span className="font-bold text-white">v{v.version}</span> · {v.createdAt ? new Date(v.createdAt).toLocaleString() : 'built-in'}
+              </span>
+              <button type="button" onClick={() => setDraft(v.body)} className="text-[10px] font-bold text-brand-400 hover:text-brand-300 uppercase tracking-wider">Load</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
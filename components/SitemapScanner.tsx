@@ -6,22 +6,33 @@
  * - Manual URL Addition
  * - Bulk URL Import
  * - Real-time Audit Progress
- * - Advanced Filtering
+ * - Advanced Filtering & Opportunity Sorting
+ * - Optional AI Post Classification
+ * - Foreign Marketplace Link Detection
  * - URL Validation
  * - Duplicate Detection
  * ============================================================================
  */
 
 import React, { useState, useMemo, useCallback, useRef } from 'react';
-import { BlogPost, SitemapState, AppConfig } from '../types';
+import { BlogPost, SitemapState, AppConfig, PostType, CommercialIntent, PostPriority } from '../types';
 import { 
   fetchAndParseSitemap, 
   fetchPageContent, 
   runConcurrent, 
   calculatePostPriority,
+  classifyPostWithAI,
+  priorityFromOpportunityScore,
+  getAIApiKey,
+  AIBudgetExceededError,
+  CONFIG,
+  resolveMarketplace,
+  findForeignMarketplaceLinks,
+  MarketplaceInfo,
   validateManualUrl,
   createBlogPostFromUrl,
   debounce,
+  generateContentHash,
 } from '../utils';
 import Toastify from 'toastify-js';
 
@@ -38,7 +49,8 @@ interface SitemapScannerProps {
 }
 
 type FilterTab = 'all' | 'critical' | 'high' | 'monetized' | 'opportunity';
-type ScanStatus = 'idle' | 'scanning' | 'auditing';
+type ScanStatus = 'idle' | 'scanning' | 'auditing' | 'classifying';
+type SortKey = 'opportunity' | 'priority' | 'title' | 'sitemap';
 
 interface AuditProgress {
   current: number;
@@ -46,6 +58,57 @@ interface AuditProgress {
   percentage: number;
 }
 
+const PRIORITY_RANK: Record<PostPriority, number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
+const POST_TYPE_LABELS: Record<PostType, string> = {
+  review: 'Review',
+  listicle: 'Listicle',
+  howto: 'How-To',
+  'gift-guide': 'Gift Guide',
+  info: 'Info',
+  unknown: 'Unknown',
+};
+
+const INTENT_LABELS: Record<CommercialIntent, string> = {
+  transactional: 'Transactional',
+  commercial: 'Commercial',
+  informational: 'Informational',
+  navigational: 'Navigational',
+};
+
+const scoreColor = (score: number) =>
+  score >= 70 ? 'text-red-400 border-red-500/30 bg-red-500/10'
+    : score >= 45 ? 'text-orange-400 border-orange-500/30 bg-orange-500/10'
+    : 'text-gray-400 border-dark-700 bg-dark-800';
+
+/**
+ * Applies the title/regex heuristic. Posts already classified by AI keep their
+ * type, intent and score while the content matches the hash the classification
+ * was computed for; edited posts fall back to the heuristic and are
+ * re-classified on the next AI pass. The title-only pass (no html) never
+ * invalidates.
+ */
+const withHeuristicAnalysis = (post: BlogPost, html: string, marketplace: MarketplaceInfo): BlogPost => {
+  const analysis = calculatePostPriority(post.title, html);
+  const foreignMarketplaceLinks = findForeignMarketplaceLinks(html, marketplace).map(l => l.domain);
+  const aiStillValid = post.classifiedBy === 'ai'
+    && (!html || post.classifiedHash === generateContentHash(post.title, html.length));
+  if (aiStillValid) {
+    return { ...post, monetizationStatus: analysis.status, foreignMarketplaceLinks };
+  }
+  return {
+    ...post,
+    foreignMarketplaceLinks,
+    priority: analysis.priority,
+    postType: analysis.type,
+    monetizationStatus: analysis.status,
+    commercialIntent: analysis.intent,
+    opportunityScore: analysis.score,
+    classifiedBy: 'heuristic',
+    classifiedHash: undefined,
+  };
+};
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -66,6 +129,9 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
   });
   const [activeTab, setActiveTab] = useState<FilterTab>('critical');
   const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState<SortKey>('opportunity');
+  const [typeFilter, setTypeFilter] = useState<PostType | 'all'>('all');
+  const [intentFilter, setIntentFilter] = useState<CommercialIntent | 'all'>('all');
   const [showSidebar, setShowSidebar] = useState(false);
   
   // Manual URL Addition State
@@ -107,17 +173,39 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
         break;
     }
 
+    // Apply classification filters
+    if (typeFilter !== 'all') {
+      posts = posts.filter(p => p.postType === typeFilter);
+    }
+    if (intentFilter !== 'all') {
+      posts = posts.filter(p => p.commercialIntent === intentFilter);
+    }
+
     // Apply search filter
     if (searchQuery.trim()) {
       const query = searchQuery.toLowerCase();
       posts = posts.filter(p => 
         p.title.toLowerCase().includes(query) ||
-        p.url.toLowerCase().includes(query)
+        p.url.toLowerCase().includes(query) ||
+        (p.productCategories || []).some(c => c.toLowerCase().includes(query))
       );
     }
 
-    return posts;
-  }, [savedState.posts, activeTab, searchQuery]);
+    // Apply sort (Array.prototype.sort is stable, so ties keep sitemap order)
+    switch (sortBy) {
+      case 'opportunity':
+        return [...posts].sort((a, b) => (b.opportunityScore ?? -1) - (a.opportunityScore ?? -1));
+      case 'priority':
+        return [...posts].sort((a, b) =>
+          (b.priority ? PRIORITY_RANK[b.priority] : -1) - (a.priority ? PRIORITY_RANK[a.priority] : -1) ||
+          (b.opportunityScore ?? -1) - (a.opportunityScore ?? -1)
+        );
+      case 'title':
+        return [...posts].sort((a, b) => a.title.localeCompare(b.title));
+      default:
+        return posts;
+    }
+  }, [savedState.posts, activeTab, searchQuery, sortBy, typeFilter, intentFilter]);
 
   const existingUrls = useMemo(() => 
     new Set(savedState.posts.map(p => p.url.toLowerCase())),
@@ -191,16 +279,11 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
     setAuditProgress({ current: 0, total: posts.length, percentage: 0 });
 
     const postMap = new Map(posts.map(p => [p.url, p]));
+    const marketplace = resolveMarketplace(config);
 
     // Initial quick audit based on title only
     posts.forEach(p => {
-      const analysis = calculatePostPriority(p.title, '');
-      postMap.set(p.url, {
-        ...p,
-        priority: analysis.priority,
-        postType: analysis.type,
-        monetizationStatus: analysis.status,
-      });
+      postMap.set(p.url, withHeuristicAnalysis(p, '', marketplace));
     });
 
     onStateChange({ ...savedState, posts: Array.from(postMap.values()) });
@@ -212,15 +295,7 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
     await runConcurrent(targets, 10, async (post) => {
       try {
         const page = await fetchPageContent(config, post.url);
-        const analysis = calculatePostPriority(post.title, page.content);
-        
-        postMap.set(post.url, {
-          ...post,
-          content: page.content,
-          priority: analysis.priority,
-          monetizationStatus: analysis.status,
-          postType: analysis.type,
-        });
+        postMap.set(post.url, withHeuristicAnalysis({ ...post, content: page.content }, page.content, marketplace));
       } catch {
         // Keep original analysis if fetch fails
       }
@@ -235,6 +310,10 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
       }
     });
 
+    if (config.aiClassifyOnAudit) {
+      await runAIClassification(postMap);
+    }
+
     onStateChange({
       url: sitemapUrl,
       posts: Array.from(postMap.values()),
@@ -246,6 +325,60 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
     showToast('Content Audit Complete', 'success');
   };
 
+  /**
+   * Second audit pass: classifies fetched posts with AI. Posts whose AI
+   * classification still matches their content are skipped to save cost; failures keep the
+   * heuristic values, and hitting the session budget stops the pass.
+   */
+  const runAIClassification = async (postMap: Map<string, BlogPost>) => {
+    const apiKey = getAIApiKey(config);
+    if (!apiKey) {
+      showToast('AI classification skipped: no AI API key configured', 'warning');
+      return;
+    }
+
+    const pending = Array.from(postMap.values()).filter(p => p.content && p.classifiedBy !== 'ai');
+    if (pending.length === 0) return;
+
+    setStatus('classifying');
+    setAuditProgress({ current: 0, total: pending.length, percentage: 0 });
+
+    let processed = 0;
+    let budgetReached = false;
+
+    await runConcurrent(pending, CONFIG.AI.CLASSIFICATION_CONCURRENCY, async (post) => {
+      if (!budgetReached) {
+        try {
+          const result = await classifyPostWithAI(post.title, post.content, config, apiKey);
+          postMap.set(post.url, {
+            ...post,
+            postType: result.postType,
+            commercialIntent: result.commercialIntent,
+            productCategories: result.productCategories,
+            opportunityScore: result.opportunityScore,
+            priority: priorityFromOpportunityScore(result.opportunityScore),
+            classifiedBy: 'ai',
+            classifiedHash: generateContentHash(post.title, post.content.length),
+          });
+        } catch (error) {
+          if (error instanceof AIBudgetExceededError) budgetReached = true;
+        }
+      }
+
+      processed++;
+      const percentage = Math.floor((processed / pending.length) * 100);
+      setAuditProgress({ current: processed, total: pending.length, percentage });
+
+      if (processed % 5 === 0 || processed === pending.length) {
+        onStateChange({ ...savedState, posts: Array.from(postMap.values()) });
+      }
+    });
+
+    if (budgetReached) {
+      showToast('AI budget reached. Remaining posts keep heuristic scores.', 'warning');
+    }
+  };
+
   // ========== MANUAL URL HANDLERS ==========
 
   const handleManualUrlChange = (value: string) => {
@@ -452,7 +585,9 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
           >
             {status === 'auditing' 
               ? `Auditing ${auditProgress.percentage}%` 
-              : 'Re-Audit All Content'
+              : status === 'classifying'
+                ? `Classifying ${auditProgress.percentage}%`
+                : 'Re-Audit All Content'
             }
           </button>
         </div>
@@ -491,6 +626,8 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
                     <i className="fa-solid fa-satellite-dish animate-bounce"></i>
                   ) : status === 'auditing' ? (
                     <i className="fa-solid fa-sync fa-spin"></i>
+                  ) : status === 'classifying' ? (
+                    <i className="fa-solid fa-brain animate-pulse"></i>
                   ) : (
                     <>
                       <i className="fa-solid fa-radar"></i>
@@ -600,6 +737,42 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
                 </div>
               </div>
             )}
+
+            {/* Classification Filters & Sort */}
+            {savedState.posts.length > 0 && (
+              <div className="flex flex-wrap gap-2 md:gap-3">
+                <select
+                  value={typeFilter}
+                  onChange={e => setTypeFilter(e.target.value as PostType | 'all')}
+                  className="bg-dark-950 border border-dark-700 rounded-xl px-3 py-2 text-white text-[10px] md:text-xs font-bold outline-none focus:border-brand-500"
+                >
+                  <option value="all">All Types</option>
+                  {(Object.keys(POST_TYPE_LABELS) as PostType[]).map(t => (
+                    <option key={t} value={t}>{POST_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+                <select
+                  value={intentFilter}
+                  onChange={e => setIntentFilter(e.target.value as CommercialIntent | 'all')}
+                  className="bg-dark-950 border border-dark-700 rounded-xl px-3 py-2 text-white text-[10px] md:text-xs font-bold outline-none focus:border-brand-500"
+                >
+                  <option value="all">All Intents</option>
+                  {(Object.keys(INTENT_LABELS) as CommercialIntent[]).map(i => (
+                    <option key={i} value={i}>{INTENT_LABELS[i]}</option>
+                  ))}
+                </select>
+                <select
+                  value={sortBy}
+                  onChange={e => setSortBy(e.target.value as SortKey)}
+                  className="bg-dark-950 border border-dark-700 rounded-xl px-3 py-2 text-white text-[10px] md:text-xs font-bold outline-none focus:border-brand-500 sm:ml-auto"
+                >
+                  <option value="opportunity">Sort: Opportunity Score</option>
+                  <option value="priority">Sort: Priority</option>
+                  <option value="title">Sort: Title</option>
+                  <option value="sitemap">Sort: Sitemap Order</option>
+                </select>
+              </div>
+            )}
           </div>
         </header>
 
@@ -661,11 +834,41 @@ export const SitemapScanner: React.FC<SitemapScannerProps> = ({
                             Monetized
                           </span>
                         )}
+                        {post.opportunityScore !== undefined && (
+                          <span
+                            className={`text-[8px] md:text-[9px] font-black px-3 py-1 md:py-1.5 rounded-full border uppercase tracking-[1px] ${scoreColor(post.opportunityScore)}`}
+                            title={post.classifiedBy === 'ai' ? 'AI opportunity score' : 'Heuristic opportunity score'}
+                          >
+                            {post.classifiedBy === 'ai' && <i className="fa-solid fa-brain mr-1"></i>}
+                            {post.opportunityScore}
+                          </span>
+                        )}
+                        {post.foreignMarketplaceLinks && post.foreignMarketplaceLinks.length > 0 && (
+                          <span
+                            className="bg-amber-500/10 text-amber-400 text-[8px] md:text-[9px] font-black px-3 py-1 md:py-1.5 rounded-full border border-amber-500/30 uppercase tracking-[1px]"
+                            title={`Links to other Amazon stores: ${post.foreignMarketplaceLinks.join(', ')}`}
+                          >
+                            <i className="fa-solid fa-globe mr-1"></i>
+                            {post.foreignMarketplaceLinks[0]}{post.foreignMarketplaceLinks.length > 1 && ` +${post.foreignMarketplaceLinks.length - 1}`}
+                          </span>
+                        )}
                         <span className="text-[8px] md:text-[9px] text-gray-600 font-black uppercase tracking-widest">
-                          {post.postType}
+                          {post.postType ? POST_TYPE_LABELS[post.postType] : ''}
+                          {post.commercialIntent && ` · ${INTENT_LABELS[post.commercialIntent]}`}
                         </span>
                       </div>
 
+                      {/* Candidate Categories */}
+                      {post.productCategories && post.productCategories.length > 0 && (
+                        <div className="flex items-center gap-2 mb-2 flex-wrap">
+                          {post.productCategories.slice(0, 3).map(c => (
+                            <span key={c} className="bg-dark-800 text-brand-400 text-[9px] md:text-[10px] font-bold px-2 py-0.5 rounded-md">
+                              {c}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Title */}
                       <h3 className="text-xl md:text-2xl font-black text-white truncate tracking-tight group-hover:text-brand-400 transition-colors">
                         {post.title}
@@ -0,0 +1,113 @@
+
+import React, { useState } from 'react';
+import { AIUsageLedger, AIUsageSummary } from '../utils';
+import Toastify from 'toastify-js';
+
+interface UsagePanelProps {
+  budgetUsd: number;
+  onBudgetChange: (budgetUsd: number) => void;
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+const formatTokens = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}k` : `${value}`;
+
+const SummaryCard: React.FC<{ label: string; summary: AIUsageSummary }> = ({ label, summary }) => (
+  <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl">
+    <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest mb-2">{label}</div>
+    <div className="text-2xl font-black text-white tracking-tight">{formatUsd(summary.costUsd)}</div>
+    <div className="text-[10px] text-gray-500 mt-1">
+      {summary.calls} calls · {formatTokens(summary.inputTokens)} in · {formatTokens(summary.outputTokens)} out
+    </div>
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ budgetUsd, onBudgetChange }) => {
+  // Bumped after ledger mutations so the panel re-reads localStorage
+  const [, setRevision] = useState(0);
+  const refresh = () => setRevision(r => r + 1);
+
+  const session = AIUsageLedger.sessionSummary();
+  const total = AIUsageLedger.totalSummary();
+  const byModel = Object.entries(AIUsageLedger.byModel()).sort((a, b) => b[1].costUsd - a[1].costUsd);
+  const recent = AIUsageLedger.getEntries().slice(-8).reverse();
+  const budgetPct = budgetUsd > 0 ? Math.min(100, (session.costUsd / budgetUsd) * 100) : 0;
+
+  const handleNewSession = () => {
+    AIUsageLedger.startNewSession();
+    refresh();
+    Toastify({ text: "New usage session started", backgroundColor: "#10b981" }).showToast();
+  };
+
+  const handleClear = () => {
+    if (!confirm('Clear the entire AI usage history?')) return;
+    AIUsageLedger.clear();
+    refresh();
+  };
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="grid grid-cols-2 gap-3">
+        <SummaryCard label="This Session" summary={session} />
+        <SummaryCard label="All Time" summary={total} />
+      </div>
+
+      <div className="p-4 bg-dark-950 border border-dark-700 rounded-2xl space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <label className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Session Budget (USD)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={budgetUsd || ''}
+            placeholder="Unlimited"
+            onChange={e => onBudgetChange(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-32 bg-dark-900 border border-dark-700 rounded-xl px-3 py-2 text-white outline-none text-sm text-right"
+          />
+        </div>
+        {budgetUsd > 0 && (
+          <div className="h-2 bg-dark-800 rounded-full overflow-hidden">
+            <div className={`h-full ${budgetPct >= 100 ? 'bg-red-500' : budgetPct >= 80 ? 'bg-amber-500' : 'bg-brand-500'}`} style={{ width: `${budgetPct}%` }} />
+          </div>
+        )}
+        <p className="text-[10px] text-gray-500">AI calls pause once the session spend reaches the budget. Costs are estimates from list prices.</p>
+      </div>
+
+      {byModel.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">By Model</div>
+          {byModel.map(([model, summary]) => (
+            <div key={model} className="flex items-center justify-between p-3 bg-dark-950 border border-dark-800 rounded-xl text-[11px]">
+              <span className="font-mono text-gray-400 truncate mr-3">{model}</span>
+              <span className="text-white font-bold shrink-0">{formatUsd(summary.costUsd)} <span className="text-gray-500 font-normal">· {summary.calls} calls</span></span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-[9px] md:text-[10px] text-gray-500 font-black uppercase tracking-widest">Recent Calls</div>
+          {recent.map(e => (
+            <div key={`${e.timestamp}-${e.purpose}-${e.inputTokens}`} className="flex items-center justify-between p-3 bg-dark-950 border border-dark-800 rounded-xl text-[11px]">
+              <span className="text-gray-400">
+                <span className="font-bold text-white uppercase text-[10px] tracking-wider">{e.purpose}</span> · {new Date(e.timestamp).toLocaleTimeString()}
+              </span>
+              <span className="text-gray-400">
+                {formatTokens(e.inputTokens + e.outputTokens)} tok{e.estimated ? ' ~' : ''} · <span className="text-white">{formatUsd(e.costUsd)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button type="button" onClick={handleNewSession} className="bg-dark-800 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:bg-dark-700 transition-colors">
+          <i className="fa-solid fa-rotate mr-2"></i> New Session
+        </button>
+        <button type="button" onClick={handleClear} className="bg-dark-800 py-3 rounded-xl text-[11px] font-bold text-gray-400 border border-dark-700 hover:text-red-400 transition-colors">
+          <i className="fa-solid fa-trash-can mr-2"></i> Clear History
+        </button>
+      </div>
+    </div>
+  );
+};
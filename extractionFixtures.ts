@@ -0,0 +1,132 @@
+/**
+ * ============================================================================
+ * AmzWP-Automator | Extraction Regression Fixtures
+ * ============================================================================
+ * Saved post HTML with hand-labelled expected products. Scored offline by
+ * runExtractionRegression (utils.ts); aiResponses are recorded model outputs
+ * replayed in place of a live AI call.
+ * ============================================================================
+ */
+
+import { ExtractionFixture } from './types';
+
+export const EXTRACTION_FIXTURES: ExtractionFixture[] = [
+  {
+    id: 'listicle-linked-headphones',
+    title: 'Best Noise Cancelling Headphones of the Year',
+    html: `<p>We tested a dozen pairs on planes, trains and open offices.</p>
+<h2>1. Best Overall: Sony WH-1000XM5</h2>
+<p>The <a href="https://www.amazon.com/dp/B09XS7JWHH?tag=demo-20">Sony WH-1000XM5 Wireless Headphones</a> still set the bar for cancellation.</p>
+<h2>2. Best for Comfort: Bose QuietComfort Ultra</h2>
+<p>The <a href="https://www.amazon.com/dp/B0CCZ26B5V?tag=demo-20">Bose QuietComfort Ultra Headphones</a> are the ones we forget we are wearing.</p>
+<h2>3. Budget Pick: Anker Soundcore Space Q45</h2>
+<p>For a fraction of the price, <a href="https://www.amazon.com/dp/B0B6FDSJQ4?tag=demo-20">Soundcore by Anker Space Q45</a> gets surprisingly close.</p>
+<p><a href="/privacy-policy">Privacy Policy</a> · <a href="/contact">Contact Us</a></p>`,
+    expected: [
+      { name: 'Sony WH-1000XM5', asin: 'B09XS7JWHH' },
+      { name: 'Bose QuietComfort Ultra', asin: 'B0CCZ26B5V' },
+      { name: 'Anker Soundcore Space Q45', asin: 'B0B6FDSJQ4' },
+    ],
+  },
+  {
+    id: 'review-unlinked-espresso',
+    title: 'Breville Bambino Plus Review: Small Machine, Serious Shots',
+    html: `<p>After three months of daily use, the Breville Bambino Plus has earned its spot on our counter.</p>
+<h2>Design and Build</h2>
+<p>The brushed steel body is compact enough for a studio apartment.</p>
+<h2>How It Compares</h2>
+<p>Next to the De'Longhi Dedica EC685 it heats faster, and it is far simpler than the Breville Barista Express.</p>
+<h2>Verdict</h2>
+<p>If you want cafe-quality milk without a learning curve, this is the one to buy.</p>`,
+    expected: [
+      { name: 'Breville Bambino Plus' },
+      { name: "De'Longhi Dedica EC685" },
+      { name: 'Breville Barista Express' },
+    ],
+  },
+  {
+    id: 'howto-unlinked-tools',
+    title: 'How to Clean a Cast Iron Skillet Without Ruining It',
+    html: `<p>Cast iron is forgiving, but soap and soaking still do damage.</p>
+<h2>What You Need</h2>
+<ul>
+<li>A chain mail scrubber such as the Lodge Chainmail Scrubber Pro</li>
+<li>Coarse kosher salt and a stiff brush</li>
+<li>A little neutral cooking oil</li>
+</ul>
+<h2>Step-by-Step</h2>
+<p>Rinse with hot water, scrub, dry on the stove and wipe a thin coat of oil inside.</p>`,
+    expected: [
+      { name: 'Lodge Chainmail Scrubber' },
+    ],
+    aiResponses: [
+      {
+        products: [
+          { productName: 'Lodge Chainmail Scrubber', brand: 'Lodge', category: 'Kitchen Tools', verdict: 'Removes stuck-on food without stripping seasoning.', confidence: 0.86, blockIndex: 2 },
+          { productName: 'Kosher Salt', brand: '', category: 'Pantry', verdict: 'Works as a gentle abrasive.', confidence: 0.4, blockIndex: 2 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'gift-guide-mixed',
+    title: 'Gifts for Coffee Lovers Under $100',
+    html: `<p>Every pick here is something we would happily unwrap.</p>
+<h3>Top Pick: Fellow Stagg EKG Electric Kettle</h3>
+<p>Precise temperature control and the best pour we have tested. <a href="https://amzn.to/3xYzAbC">Check price on Amazon</a></p>
+<h3>Recommended: AeroPress Original</h3>
+<p>Nearly indestructible and perfect for travel.</p>
+<h3>Budget: Hario Skerton Pro</h3>
+<p>A hand grinder that punches well above its price.</p>
+<p>Subscribe to our newsletter for more gift ideas.</p>`,
+    expected: [
+      { name: 'Fellow Stagg EKG Electric Kettle' },
+      { name: 'AeroPress Original' },
+      { name: 'Hario Skerton Pro' },
+    ],
+    aiResponses: [
+      {
+        products: [
+          { productName: 'Fellow Stagg EKG Electric Kettle', brand: 'Fellow', category: 'Electric Kettles', verdict: 'Precise pour-over kettle.', confidence: 0.95, blockIndex: 1 },
+          { productName: 'AeroPress Original', brand: 'AeroPress', category: 'Coffee Makers', verdict: 'Durable travel brewer.', confidence: 0.92, blockIndex: 3 },
+          { productName: 'Hario Skerton Pro', brand: 'Hario', category: 'Coffee Grinders', verdict: 'Capable budget hand grinder.', confidence: 0.9, blockIndex: 5 },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'news-no-products',
+    title: 'What the New EU Right-to-Repair Rules Mean for You',
+    html: `<p>New rules require manufacturers to offer spare parts for up to ten years.</p>
+<h2>Which Devices Are Covered</h2>
+<p>Phones, tablets, washing machines and vacuum cleaners are in scope from next year.</p>
+<h2>What Changes for Shoppers</h2>
+<p>Expect repair prices to be published up front. Read more in our FAQ or contact us with questions.</p>`,
+    expected: [],
+  },
+  {
+    id: 'uk-store-linked-kettles',
+    title: 'Best Kettles for a British Kitchen',
+    html: `<p>Rapid boil matters more than looks when you brew ten cups a day.</p>
+<h2>1. Best Overall: Russell Hobbs Luna</h2>
+<p>The <a href="https://www.amazon.co.uk/dp/B01N5V6CX5?tag=demo-21">Russell Hobbs Luna Quiet Boil Kettle</a> is fast and genuinely quiet.</p>
+<h2>2. Best Design: Smeg KLF03</h2>
+<p>Imported stock sometimes sells cheaper on <a href="https://www.amazon.de/Smeg-KLF03CREU-Wasserkocher/dp/B00CFS4ZVS/ref=sr_1_1">amazon.de</a>.</p>`,
+    expected: [
+      { name: 'Russell Hobbs Luna', asin: 'B01N5V6CX5' },
+      { name: 'Smeg KLF03', asin: 'B00CFS4ZVS' },
+    ],
+  },
+  {
+    id: 'comparison-data-asin',
+    title: 'Kindle Paperwhite vs Kobo Clara 2E',
+    html: `<p>Both readers are waterproof and glare-free, but the ecosystems differ.</p>
+<div class="product-card" data-asin="B08KTZ8249"><h3>Kindle Paperwhite Signature Edition</h3><p>Auto-adjusting light and wireless charging.</p></div>
+<div class="product-card" data-asin="B0BFN7LMTJ"><h3>Kobo Clara 2E</h3><p>Made from recycled plastic with native library lending.</p></div>
+<p>Follow us on Facebook and Instagram for deal alerts.</p>`,
+    expected: [
+      { name: 'Kindle Paperwhite Signature Edition', asin: 'B08KTZ8249' },
+      { name: 'Kobo Clara 2E', asin: 'B0BFN7LMTJ' },
+    ],
+  },
+];
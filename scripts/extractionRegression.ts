@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * AmzWP-Automator | Extraction Regression Check
+ * ============================================================================
+ * Scores the fixture corpus with and without replayed AI responses and fails
+ * when precision or recall drops below the committed baseline.
+ *
+ *   npm test                      check against extractionBaseline.json
+ *   npm run baseline:extraction   accept the current scores as the baseline
+ * ============================================================================
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { runExtractionRegression, getExtractionFingerprint, ExtractionRegressionReport } from '../utils';
+import { EXTRACTION_FIXTURES } from '../extractionFixtures';
+
+interface ModeScores {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+interface ExtractionBaseline {
+  fingerprint: string;
+  regexOnly: ModeScores;
+  aiReplay: ModeScores;
+}
+
+const BASELINE_PATH = fileURLToPath(new URL('../extractionBaseline.json', import.meta.url));
+// Scores are ratios of small integers; this only absorbs float noise
+const TOLERANCE = 1e-6;
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+const toScores = (report: ExtractionRegressionReport): ModeScores => ({
+  precision: round(report.precision),
+  recall: round(report.recall),
+  f1: round(report.f1),
+});
+
+const runQuietly = (replayAI: boolean): ExtractionRegressionReport => {
+  // The extraction pipeline logs every candidate; keep the check's output readable
+  const { log, warn } = console;
+  console.log = console.warn = () => {};
+  try {
+    return runExtractionRegression(EXTRACTION_FIXTURES, { replayAI });
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+};
+
+const describeFailures = (report: ExtractionRegressionReport): string[] =>
+  report.fixtures
+    .filter(f => f.falsePositives.length > 0 || f.missed.length > 0)
+    .map(f => `  ${f.id}: false positives [${f.falsePositives.join(' | ')}], missed [${f.missed.join(' | ')}]`);
+
+const reports = { regexOnly: runQuietly(false), aiReplay: runQuietly(true) };
+const current: ExtractionBaseline = {
+  fingerprint: getExtractionFingerprint(),
+  regexOnly: toScores(reports.regexOnly),
+  aiReplay: toScores(reports.aiReplay),
+};
+
+if (process.argv.includes('--update')) {
+  writeFileSync(BASELINE_PATH, `${JSON.stringify(current, null, 2)}\n`);
+  console.log(`Extraction baseline saved (${current.fingerprint})`);
+  process.exit(0);
+}
+
+const baseline: ExtractionBaseline = JSON.parse(readFileSync(BASELINE_PATH, 'utf8'));
+if (baseline.fingerprint !== current.fingerprint) {
+  console.log(`Extraction patterns or forbidden words changed since the baseline (${baseline.fingerprint} → ${current.fingerprint})`);
+}
+
+let failed = false;
+for (const mode of ['regexOnly', 'aiReplay'] as const) {
+  const drops = (['precision', 'recall'] as const)
+    .filter(metric => current[mode][metric] < baseline[mode][metric] - TOLERANCE)
+    .map(metric => `${metric} ${baseline[mode][metric]} → ${current[mode][metric]}`);
+
+  const { precision, recall, f1 } = current[mode];
+  console.log(`${mode}: precision ${precision}, recall ${recall}, F1 ${f1}`);
+  if (drops.length > 0) {
+    failed = true;
+    console.error(`${mode} regressed: ${drops.join(', ')}`);
+    describeFailures(reports[mode]).forEach(line => console.error(line));
+  }
+}
+
+if (failed) {
+  console.error('Fix the extraction, or run `npm run baseline:extraction` if the drop is intended.');
+  process.exit(1);
+}
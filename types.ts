@@ -8,11 +8,80 @@ export interface FAQItem {
 
 export type DeploymentMode = 'ELITE_BENTO' | 'TACTICAL_LINK';
 
+export type ProductRole = 'primary' | 'budget' | 'upgrade';
+
+export type ContentLanguage = 'en' | 'de' | 'es' | 'fr' | 'it';
+
+export type AmazonMarketplace =
+  | 'US' | 'CA' | 'MX' | 'BR' | 'UK' | 'DE' | 'FR' | 'IT' | 'ES' | 'NL'
+  | 'SE' | 'PL' | 'IN' | 'AE' | 'JP' | 'AU' | 'SG';
+
+export type ProductDataSourceId = 'cache' | 'paapi' | 'serpapi' | 'catalog';
+
+// Manual/CSV catalog row; only asin and title are required
+export interface CatalogProduct {
+  asin: string;
+  title: string;
+  brand?: string;
+  category?: string;
+  price?: string;
+  imageUrl?: string;
+  rating?: number;
+  reviewCount?: number;
+  availability?: string;
+  detailPageUrl?: string;
+  marketplace?: AmazonMarketplace; // Absent = any store
+}
+
+// One search hit for a keyword lookup, scored against the query's brand/model tokens
+export interface ProductCandidate {
+  asin: string;
+  title: string;
+  brand?: string;
+  price?: string;
+  imageUrl?: string;
+  rating?: number;
+  reviewCount?: number;
+  source: ProductDataSourceId;
+  score: number; // 0-1
+}
+
+// discontinued = the store no longer returns the listing at all
+export type StockStatus = 'in_stock' | 'out_of_stock' | 'discontinued';
+
+export type PromptPurpose = 'extraction' | 'verdict';
+
+export interface GeoTarget {
+  country: string; // ISO 3166-1 alpha-2 visitor country, e.g. "GB"
+  marketplace: AmazonMarketplace;
+  tag: string; // Associate tag registered in that store
+}
+
+export interface PromptVersion {
+  version: number;
+  body: string;
+  createdAt: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  purpose: PromptPurpose;
+  builtIn?: boolean;
+  versions: PromptVersion[]; // Oldest first; the last entry is the live version
+}
+
+export interface PromptLibrary {
+  templates: PromptTemplate[];
+  siteDefaults: Record<string, Partial<Record<PromptPurpose, string>>>; // Site hostname -> template id per purpose
+}
+
 export interface AppConfig {
   amazonTag: string;
   amazonAccessKey: string;
   amazonSecretKey: string;
   amazonRegion: string;
+  amazonPaapiHost?: string; // PA-API host override, e.g. a local stub URL; default is the marketplace's host
   wpUrl: string;
   wpUser: string;
   wpAppPassword: string;
@@ -25,6 +94,15 @@ export interface AppConfig {
   
   aiProvider: AIProvider;
   aiModel: string;
+  aiApiKeys?: Partial<Record<AIProvider, string>>; // Encrypted at rest via SecureStorage
+  promptLibrary?: PromptLibrary;
+  aiSessionBudgetUsd?: number; // 0 or unset = unlimited
+  siteLanguages?: Record<string, ContentLanguage>; // Site hostname -> forced language; absent = auto-detect
+  siteMarketplaces?: Record<string, AmazonMarketplace>; // Site hostname -> Amazon store; absent = US
+  geoTargets?: GeoTarget[]; // Alternate store links swapped in client-side by visitor country
+  aiClassifyOnAudit?: boolean; // Run the AI post classifier during site audits
+  priceRefreshHours?: number; // Re-check placed products this often while the app is open; 0 or unset = manual only
+  productSources?: ProductDataSourceId[]; // Enabled lookup sources, highest priority first; unset = default chain
 }
 
 export interface ProductDetails {
@@ -34,10 +112,23 @@ export interface ProductDetails {
   brand: string; 
   category: string; 
   price: string;
-  imageUrl: string;
-  rating: number;
-  reviewCount: number; 
-  prime: boolean;
+  imageUrl?: string; // Unset when no source had an image
+  rating?: number; // Unset when no source had a rating
+  reviewCount?: number; 
+  prime?: boolean;
+  listPrice?: string; // Pre-discount price from the offer (PA-API SavingBasis)
+  availability?: string; // Offer availability message, e.g. "In Stock"
+  stockStatus?: StockStatus; // Normalised from the lookup; unset = unknown
+  offerCount?: number;
+  images?: string[];
+  features?: string[]; // Official feature bullets
+  detailPageUrl?: string;
+  dataSource?: ProductDataSourceId; // Source that matched the product
+  fieldSources?: Partial<Record<keyof ProductDetails, ProductDataSourceId>>; // Where each looked-up field came from; absent = default
+  marketplace?: AmazonMarketplace; // Store the ASIN and price were looked up in; absent = US
+  geoAvailability?: Partial<Record<AmazonMarketplace, boolean>>; // Listed in each geo-target store; unset = unchecked
+  shortLinks?: string[]; // Original amzn.to links in the post that resolved to this ASIN
+  lookupQuery?: string; // Keyword query the ASIN was resolved from; absent = linked by ASIN
   description?: string;
   pros?: string[];
   cons?: string[];
@@ -47,6 +138,13 @@ export interface ProductDetails {
   evidenceClaims: string[]; 
   specs?: Record<string, string>; // NEW: For Comparison Table
   insertionIndex: number; 
+  sourceBlockIndex?: number; // Content block (splitContentIntoBlocks index) the product was found in
+  recommendedBlockIndex?: number; // AI-chosen block (same indexing) the box should follow
+  placementRationale?: string;
+  acknowledgedClaims?: string[]; // Sentences the editor approved despite claim-linter flags
+  language?: ContentLanguage; // Language of the generated copy and box labels
+  role?: ProductRole; // Alternative-pick role shown as the box badge; absent = primary
+  alternativeFor?: string; // Product id this pick is an alternative to
   deploymentMode: DeploymentMode;
 }
 
@@ -55,16 +153,46 @@ export interface ComparisonData {
   title: string;
   productIds: string[]; // IDs of the top 3 products
   specs: string[]; // Keys like "Weight", "Battery", "Speed"
+  language?: ContentLanguage;
 }
 
 // NEW: Carousel Data Structure
 export interface CarouselData {
   title: string;
   productIds: string[];
+  language?: ContentLanguage;
+}
+
+// Analysis pipeline progress (analyzeContentAndFindProduct onProgress)
+export type ScanAIStage = 'extraction' | 'enrichment' | 'comparison' | 'placement';
+export type ScanLookupStatus = 'found' | 'cached' | 'not-found';
+
+export type ScanProgressEvent =
+  | { type: 'pre-extraction'; asins: number; names: number; blocks: number; chunks: number; language: ContentLanguage }
+  | { type: 'ai-start'; stage: ScanAIStage; label: string }
+  | { type: 'ai-end'; stage: ScanAIStage; label: string; ok: boolean; detail?: string }
+  | { type: 'lookup-start'; index: number; total: number; query: string }
+  | { type: 'lookup-end'; index: number; total: number; query: string; status: ScanLookupStatus; title?: string }
+  | { type: 'cache-hit'; query: string; asin?: string }
+  | { type: 'complete'; products: number; warnings: number };
+
+// Offline extraction regression corpus (see extractionFixtures.ts)
+export interface ExpectedFixtureProduct {
+  name: string;
+  asin?: string;
+}
+
+export interface ExtractionFixture {
+  id: string;
+  title: string;
+  html: string;
+  expected: ExpectedFixtureProduct[];
+  aiResponses?: unknown[]; // Recorded extraction JSON per content chunk, replayed offline
 }
 
 export type PostPriority = 'critical' | 'high' | 'medium' | 'low';
-export type PostType = 'review' | 'listicle' | 'info' | 'unknown';
+export type PostType = 'review' | 'listicle' | 'howto' | 'gift-guide' | 'info' | 'unknown';
+export type CommercialIntent = 'transactional' | 'commercial' | 'informational' | 'navigational';
 
 export interface BlogPost {
   id: number;
@@ -80,6 +208,12 @@ export interface BlogPost {
   activeProducts?: ProductDetails[]; 
   detectedProducts?: ProductDetails[]; 
   comparisonData?: ComparisonData; // NEW
+  commercialIntent?: CommercialIntent;
+  productCategories?: string[];
+  opportunityScore?: number; // 0-100, higher = more revenue left on the table
+  classifiedBy?: 'ai' | 'heuristic';
+  classifiedHash?: string; // Content hash the AI classification was computed for
+  foreignMarketplaceLinks?: string[]; // Amazon domains linked that differ from the site's marketplace
 }
 
 export interface SitemapState {
@@ -88,6 +222,63 @@ export interface SitemapState {
   lastScanned?: number;
 }
 
+// Price refresh: what was pushed per post, so boxes can be re-rendered later
+export interface PlacedBlock {
+  kind: 'product' | 'comparison' | 'carousel';
+  html: string; // Exactly as pushed; located verbatim in the raw post content
+  productIds: string[];
+  comparison?: ComparisonData;
+  carousel?: CarouselData;
+}
+
+export interface PlacementRecord {
+  postId: number;
+  title: string;
+  url: string;
+  products: ProductDetails[];
+  blocks: PlacedBlock[];
+  pushedAt: number;
+  refreshedAt?: number;
+}
+
+export type RefreshedField = 'price' | 'rating' | 'reviewCount' | 'availability';
+
+export interface ProductFieldChange {
+  postId: number;
+  postTitle: string;
+  asin: string;
+  productTitle: string;
+  field: RefreshedField;
+  before: string;
+  after: string;
+}
+
+export interface PriceRefreshReport {
+  startedAt: number;
+  finishedAt: number;
+  postsChecked: number;
+  postsUpdated: number;
+  boxesUpdated: number;
+  changes: ProductFieldChange[];
+  issues: { postId: number; postTitle: string; message: string }[];
+}
+
+// Dead listings: placed products that can no longer be bought
+export interface DeadListing {
+  postId: number;
+  postTitle: string;
+  product: ProductDetails; // As placed
+  status: Exclude<StockStatus, 'in_stock'>;
+  replacements: ProductDetails[]; // Same-category, purchasable candidates
+}
+
+export interface DeadListingReport {
+  checkedAt: number;
+  postsChecked: number;
+  productsChecked: number;
+  listings: DeadListing[];
+}
+
 export enum AppStep {
   CONFIG = 'CONFIG',
   SITEMAP = 'SITEMAP',
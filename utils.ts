@@ -19,9 +19,33 @@ import {
   BlogPost, 
   PostPriority, 
   PostType, 
+  CommercialIntent,
   DeploymentMode, 
+  ProductRole,
   ComparisonData,
-  CarouselData
+  CarouselData,
+  AIProvider,
+  FAQItem,
+  PromptLibrary,
+  PromptPurpose,
+  PromptTemplate,
+  ContentLanguage,
+  AmazonMarketplace,
+  GeoTarget,
+  ScanProgressEvent,
+  ScanLookupStatus,
+  ExtractionFixture,
+  ExpectedFixtureProduct,
+  PlacedBlock,
+  PlacementRecord,
+  PriceRefreshReport,
+  RefreshedField,
+  StockStatus,
+  DeadListing,
+  DeadListingReport,
+  ProductDataSourceId,
+  CatalogProduct,
+  ProductCandidate
 } from './types';
 import { GoogleGenAI } from '@google/genai';
 
@@ -50,6 +74,20 @@ export class AIProcessingError extends Error {
   }
 }
 
+export class AIResponseValidationError extends AIProcessingError {
+  constructor(message: string, public readonly errors: string[], model?: string) {
+    super(message, model);
+    this.name = 'AIResponseValidationError';
+  }
+}
+
+export class AIBudgetExceededError extends AIProcessingError {
+  constructor(message: string, public readonly spentUsd: number, public readonly budgetUsd: number) {
+    super(message);
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
 export class WordPressAPIError extends Error {
   constructor(message: string, public readonly endpoint?: string, public readonly statusCode?: number) {
     super(message);
@@ -57,6 +95,20 @@ export class WordPressAPIError extends Error {
   }
 }
 
+export class PAAPIError extends Error {
+  constructor(message: string, public readonly code?: string, public readonly statusCode?: number) {
+    super(message);
+    this.name = 'PAAPIError';
+  }
+}
+
+export class ScanCancelledError extends Error {
+  constructor(message: string = 'Scan cancelled') {
+    super(message);
+    this.name = 'ScanCancelledError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(message: string, public readonly field?: string) {
     super(message);
@@ -74,9 +126,13 @@ const CONFIG = {
     MAX_ANALYSIS: 200,
     PRODUCT_TTL_MS: 24 * 60 * 60 * 1000, // 24 hours
     ANALYSIS_TTL_MS: 12 * 60 * 60 * 1000, // 12 hours
+    MAX_SHORT_LINKS: 2000,
+    SHORT_LINK_TTL_MS: 30 * 24 * 60 * 60 * 1000, // 30 days; short links never change target
   },
   NETWORK: {
     DEFAULT_TIMEOUT_MS: 15000,
+    PAAPI_TIMEOUT_MS: 10000,
+    SHORT_LINK_CONCURRENCY: 4,
     PUSH_TIMEOUT_MS: 25000,
     MAX_RETRIES: 3,
     RETRY_BACKOFF_MS: 1000,
@@ -84,7 +140,18 @@ const CONFIG = {
   AI: {
     MAX_CONTEXT_CHARS: 20000,
     MAX_PRODUCTS_PER_SCAN: 10,
-    MAX_RETRIES: 2,
+    MAX_RETRIES: 1, // Repair re-prompts after a response fails schema validation
+    MAX_OUTPUT_TOKENS: 4096,
+    REQUEST_TIMEOUT_MS: 60000,
+    ENRICHMENT_CONCURRENCY: 3,
+    ENRICHMENT_CONTEXT_CHARS: 4000,
+    CHUNK_CONCURRENCY: 2,
+    CLASSIFICATION_CONCURRENCY: 3,
+    CLASSIFICATION_CONTEXT_CHARS: 3000,
+    PLACEMENT_SNIPPET_CHARS: 240,
+    COMPARISON_PICKS: 3,
+    MIN_SPEC_KEYS: 3,
+    MAX_SPEC_KEYS: 6,
   },
   // COMPREHENSIVE media/asset file extensions to EXCLUDE from sitemap crawling
   EXCLUDED_EXTENSIONS: /\.(jpg|jpeg|png|gif|webp|avif|svg|ico|bmp|tiff|tif|heic|heif|raw|pdf|css|js|mjs|cjs|ts|tsx|jsx|json|xml|rss|atom|txt|md|yaml|yml|toml|woff|woff2|ttf|eot|otf|mp4|mp3|wav|avi|mov|mkv|webm|ogg|flac|aac|m4a|m4v|wmv|flv|3gp|zip|rar|gz|tar|7z|bz2|xz|exe|dmg|pkg|deb|rpm|iso|doc|docx|xls|xlsx|ppt|pptx|csv|sql)$/i,
@@ -97,6 +164,7 @@ const CONFIG = {
 const CACHE_KEYS = {
   PRODUCTS: 'amzwp_cache_products_v4',
   ANALYSIS: 'amzwp_cache_analysis_v4',
+  SHORT_LINKS: 'amzwp_cache_shortlinks_v1',
   METADATA: 'amzwp_cache_meta_v4',
 } as const;
 
@@ -114,6 +182,7 @@ interface ProxyConfig {
   name: string;
   transform: (url: string) => string;
   parseResponse: (response: Response) => Promise<string>;
+  parseFinalUrl?: (response: Response) => Promise<string | null>; // Proxies that report where redirects landed
   priority: number;
 }
 
@@ -256,6 +325,13 @@ const analysisCache = new EnterpriseCache<AnalysisCacheData>(
   CONFIG.CACHE.ANALYSIS_TTL_MS
 );
 
+// Short link URL -> ASIN it redirects to
+const shortLinkCache = new EnterpriseCache<string>(
+  CACHE_KEYS.SHORT_LINKS,
+  CONFIG.CACHE.MAX_SHORT_LINKS,
+  CONFIG.CACHE.SHORT_LINK_TTL_MS
+);
+
 export const IntelligenceCache = {
   getProducts: (): Record<string, ProductDetails> => productCache.getAll(),
   
@@ -273,19 +349,28 @@ export const IntelligenceCache = {
     analysisCache.set(contentHash, data);
   },
   
+  getShortLink: (url: string): string | null => shortLinkCache.get(url),
+  
+  setShortLink: (url: string, asin: string): void => {
+    shortLinkCache.set(url, asin);
+  },
+  
   clear: (): void => {
     productCache.clear();
     analysisCache.clear();
+    shortLinkCache.clear();
   },
   
   cleanup: (): void => {
     productCache.cleanup();
     analysisCache.cleanup();
+    shortLinkCache.cleanup();
   },
   
   stats: () => ({
     products: productCache.size(),
     analysis: analysisCache.size(),
+    shortLinks: shortLinkCache.size(),
   }),
 };
 
@@ -341,6 +426,10 @@ const PROXY_CONFIGS: ProxyConfig[] = [
       const json = await res.json();
       return json.contents;
     },
+    parseFinalUrl: async (res) => {
+      const json = await res.json();
+      return json.status?.url || null;
+    },
     priority: 2,
   },
   {
@@ -361,6 +450,13 @@ const PROXY_CONFIGS: ProxyConfig[] = [
 // NETWORK UTILITIES - Enterprise Proxy Orchestrator with Parallel Racing
 // ============================================================================
 
+/**
+ * Adds an optional caller signal (e.g. a cancelled scan) to a request's own
+ * timeout signal; whichever fires first aborts the request.
+ */
+const withCallerSignal = (own: AbortSignal, caller?: AbortSignal): AbortSignal =>
+  caller ? AbortSignal.any([own, caller]) : own;
+
 /**
  * Fetches a URL using parallel proxy racing for maximum speed and reliability.
  * Uses Promise.any() to return the first successful response.
@@ -368,9 +464,9 @@ const PROXY_CONFIGS: ProxyConfig[] = [
 const fetchWithProxy = async (
   url: string, 
   timeout = CONFIG.NETWORK.DEFAULT_TIMEOUT_MS,
-  options: { useParallelRacing?: boolean } = {}
+  options: { useParallelRacing?: boolean; signal?: AbortSignal } = {}
 ): Promise<string> => {
-  const { useParallelRacing = true } = options;
+  const { useParallelRacing = true, signal } = options;
   const cleanUrl = url.trim().replace(/^(?!https?:\/\/)/i, 'https://');
 
   if (useParallelRacing) {
@@ -382,7 +478,7 @@ const fetchWithProxy = async (
 
       try {
         const response = await fetch(proxyUrl, {
-          signal: controller.signal,
+          signal: withCallerSignal(controller.signal, signal),
           headers: {
             'Accept': 'application/xml, text/xml, application/json, text/html, */*',
           },
@@ -414,13 +510,14 @@ const fetchWithProxy = async (
     const errors: string[] = [];
     
     for (const proxy of PROXY_CONFIGS) {
+      if (signal?.aborted) break;
       try {
         const proxyUrl = proxy.transform(cleanUrl);
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
 
         const response = await fetch(proxyUrl, {
-          signal: controller.signal,
+          signal: withCallerSignal(controller.signal, signal),
           headers: {
             'Accept': 'application/xml, text/xml, application/json, text/html, */*',
           },
@@ -448,6 +545,45 @@ const fetchWithProxy = async (
   }
 };
 
+/**
+ * Follows redirects through the proxies and returns the URL they land on.
+ * Proxies that report the final URL are trusted directly; for the rest it is
+ * read from the landing page's canonical link.
+ */
+const resolveRedirectUrl = async (
+  url: string,
+  timeout = CONFIG.NETWORK.DEFAULT_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<string> => {
+  const cleanUrl = url.trim().replace(/^(?!https?:\/\/)/i, 'https://');
+
+  const attempts = PROXY_CONFIGS.map(async (proxy) => {
+    const response = await fetch(proxy.transform(cleanUrl), { signal: withCallerSignal(AbortSignal.timeout(timeout), signal) });
+    if (!response.ok) {
+      throw new NetworkError(`HTTP ${response.status}`, response.status);
+    }
+
+    if (proxy.parseFinalUrl) {
+      const finalUrl = await proxy.parseFinalUrl(response);
+      if (finalUrl && finalUrl !== cleanUrl) return finalUrl;
+      throw new NetworkError(`${proxy.name} did not report a redirect target`);
+    }
+
+    const html = await proxy.parseResponse(response);
+    const canonical =
+      html.match(/<link[^>]+rel=["']canonical["'][^>]*href=["']([^"']+)["']/i)?.[1] ||
+      html.match(/<meta[^>]+property=["']og:url["'][^>]*content=["']([^"']+)["']/i)?.[1];
+    if (!canonical) throw new NetworkError(`${proxy.name} landing page has no canonical URL`);
+    return canonical;
+  });
+
+  try {
+    return await Promise.any(attempts);
+  } catch {
+    throw new ProxyExhaustionError(`Could not resolve redirect target for ${cleanUrl}`, PROXY_CONFIGS.length);
+  }
+};
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -875,6 +1011,373 @@ export const createBlogPostFromUrl = (url: string, existingIds: Set<number>): Bl
   };
 };
 
+// ============================================================================
+// LOCALIZATION - Language Detection & Box Locale Tables
+// ============================================================================
+
+export interface BoxLocale {
+  languageName: string; // English name, used in AI instructions
+  nativeName: string;
+  topPick: string;
+  budgetPick: string;
+  upgradePick: string;
+  checkPrice: string;
+  viewDeal: string;
+  bestPrice: string;
+  commonQuestions: string;
+  verifiedChoice: string;
+  primeShipping: string;
+  reviews: (count: string) => string;
+  defaultCategory: string;
+  defaultVerdict: string;
+  fallbackVerdict: (brand: string, name: string) => string;
+  comparedTitle: (category: string) => string;
+  topRatedTitle: (category: string) => string;
+  specBrand: string;
+  specRating: string;
+  specReviews: string;
+}
+
+export const BOX_LOCALES: Record<ContentLanguage, BoxLocale> = {
+  en: {
+    languageName: 'English',
+    nativeName: 'English',
+    topPick: 'Top Pick',
+    budgetPick: 'Budget Pick',
+    upgradePick: 'Upgrade Pick',
+    checkPrice: 'Check Price',
+    viewDeal: 'View Deal',
+    bestPrice: 'Best Price',
+    commonQuestions: 'Common Questions',
+    verifiedChoice: 'Verified Choice',
+    primeShipping: 'Prime Shipping',
+    reviews: count => `${count}+ reviews`,
+    defaultCategory: 'Premium',
+    defaultVerdict: 'See the listing for full specifications and current pricing.',
+    fallbackVerdict: (brand, name) => `The ${brand} ${name} is a strong option in its class. It balances performance, build quality and everyday usability. Check the listing for full specifications and current pricing.`,
+    comparedTitle: category => `${category || 'Top Picks'} Compared`,
+    topRatedTitle: category => `Top Rated ${category || 'Products'}`,
+    specBrand: 'Brand',
+    specRating: 'Rating',
+    specReviews: 'Reviews',
+  },
+  de: {
+    languageName: 'German',
+    nativeName: 'Deutsch',
+    topPick: 'Testsieger',
+    budgetPick: 'Preistipp',
+    upgradePick: 'Premium-Tipp',
+    checkPrice: 'Preis prüfen',
+    viewDeal: 'Zum Angebot',
+    bestPrice: 'Bester Preis',
+    commonQuestions: 'Häufige Fragen',
+    verifiedChoice: 'Geprüfte Wahl',
+    primeShipping: 'Prime-Versand',
+    reviews: count => `${count}+ Bewertungen`,
+    defaultCategory: 'Premium',
+    defaultVerdict: 'Alle technischen Daten und aktuellen Preise finden Sie im Angebot.',
+    fallbackVerdict: (brand, name) => `Das ${brand} ${name} ist eine starke Option in seiner Klasse. Es verbindet Leistung, Verarbeitung und Alltagstauglichkeit. Alle technischen Daten und aktuellen Preise finden Sie im Angebot.`,
+    comparedTitle: category => `${category || 'Top-Produkte'} im Vergleich`,
+    topRatedTitle: category => `Bestbewertete ${category || 'Produkte'}`,
+    specBrand: 'Marke',
+    specRating: 'Bewertung',
+    specReviews: 'Rezensionen',
+  },
+  es: {
+    languageName: 'Spanish',
+    nativeName: 'Español',
+    topPick: 'Mejor opción',
+    budgetPick: 'Opción económica',
+    upgradePick: 'Opción premium',
+    checkPrice: 'Ver precio',
+    viewDeal: 'Ver oferta',
+    bestPrice: 'Mejor precio',
+    commonQuestions: 'Preguntas frecuentes',
+    verifiedChoice: 'Elección verificada',
+    primeShipping: 'Envío Prime',
+    reviews: count => `${count}+ opiniones`,
+    defaultCategory: 'Premium',
+    defaultVerdict: 'Consulta el anuncio para ver todas las especificaciones y el precio actual.',
+    fallbackVerdict: (brand, name) => `El ${brand} ${name} es una opción sólida en su categoría. Combina rendimiento, calidad de construcción y facilidad de uso diario. Consulta el anuncio para ver todas las especificaciones y el precio actual.`,
+    comparedTitle: category => `Comparativa: ${category || 'Mejores productos'}`,
+    topRatedTitle: category => `${category || 'Productos'} mejor valorados`,
+    specBrand: 'Marca',
+    specRating: 'Valoración',
+    specReviews: 'Opiniones',
+  },
+  fr: {
+    languageName: 'French',
+    nativeName: 'Français',
+    topPick: 'Meilleur choix',
+    budgetPick: 'Choix petit budget',
+    upgradePick: 'Choix haut de gamme',
+    checkPrice: 'Voir le prix',
+    viewDeal: "Voir l'offre",
+    bestPrice: 'Meilleur prix',
+    commonQuestions: 'Questions fréquentes',
+    verifiedChoice: 'Choix vérifié',
+    primeShipping: 'Livraison Prime',
+    reviews: count => `${count}+ avis`,
+    defaultCategory: 'Premium',
+    defaultVerdict: "Consultez l'offre pour les caractéristiques complètes et le prix actuel.",
+    fallbackVerdict: (brand, name) => `Le ${brand} ${name} est une option solide dans sa catégorie. Il allie performances, qualité de fabrication et facilité d'utilisation au quotidien. Consultez l'offre pour les caractéristiques complètes et le prix actuel.`,
+    comparedTitle: category => `Comparatif : ${category || 'Meilleurs produits'}`,
+    topRatedTitle: category => `${category || 'Produits'} les mieux notés`,
+    specBrand: 'Marque',
+    specRating: 'Note',
+    specReviews: 'Avis',
+  },
+  it: {
+    languageName: 'Italian',
+    nativeName: 'Italiano',
+    topPick: 'Scelta migliore',
+    budgetPick: 'Scelta economica',
+    upgradePick: 'Scelta premium',
+    checkPrice: 'Vedi prezzo',
+    viewDeal: "Vedi l'offerta",
+    bestPrice: 'Miglior prezzo',
+    commonQuestions: 'Domande frequenti',
+    verifiedChoice: 'Scelta verificata',
+    primeShipping: 'Spedizione Prime',
+    reviews: count => `${count}+ recensioni`,
+    defaultCategory: 'Premium',
+    defaultVerdict: "Consulta l'offerta per le specifiche complete e il prezzo attuale.",
+    fallbackVerdict: (brand, name) => `${brand} ${name} è un'opzione valida nella sua categoria. Unisce prestazioni, qualità costruttiva e praticità quotidiana. Consulta l'offerta per le specifiche complete e il prezzo attuale.`,
+    comparedTitle: category => `${category || 'Migliori prodotti'} a confronto`,
+    topRatedTitle: category => `${category || 'Prodotti'} più votati`,
+    specBrand: 'Marca',
+    specRating: 'Valutazione',
+    specReviews: 'Recensioni',
+  },
+};
+
+export const getBoxLocale = (language?: ContentLanguage): BoxLocale => BOX_LOCALES[language || 'en'] || BOX_LOCALES.en;
+
+/**
+ * Badge label for a product box: the alternative-pick role when set, else the default.
+ */
+export const getRoleBadgeLabel = (t: BoxLocale, role: ProductRole | undefined, fallback: string): string => {
+  if (role === 'budget') return t.budgetPick;
+  if (role === 'upgrade') return t.upgradePick;
+  return fallback;
+};
+
+const LANGUAGE_MARKERS: Record<ContentLanguage, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'with', 'for', 'this', 'that', 'you', 'it', 'of', 'to', 'which', 'best'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'für', 'ein', 'eine', 'auf', 'sie', 'den', 'dem', 'auch', 'sich', 'wir', 'bei'],
+  es: ['el', 'los', 'las', 'que', 'y', 'en', 'una', 'es', 'por', 'con', 'para', 'del', 'se', 'muy', 'más', 'pero', 'como'],
+  fr: ['le', 'les', 'et', 'est', 'une', 'des', 'du', 'pour', 'avec', 'dans', 'qui', 'pas', 'sur', 'vous', 'nous', 'très'],
+  it: ['il', 'di', 'che', 'è', 'per', 'con', 'della', 'non', 'sono', 'gli', 'una', 'anche', 'più', 'questo', 'nel'],
+};
+
+/**
+ * Guesses the language of a text from stop-word frequency. Ambiguous or
+ * very short texts default to English.
+ */
+export const detectContentLanguage = (text: string): ContentLanguage => {
+  const words = (text || '').toLowerCase().substring(0, 8000).match(/[a-zà-ÿß]+/g) || [];
+  if (words.length < 20) return 'en';
+
+  const counts = new Map<string, number>();
+  words.forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+
+  let best: ContentLanguage = 'en';
+  let bestScore = 0;
+  (Object.keys(LANGUAGE_MARKERS) as ContentLanguage[]).forEach(lang => {
+    const score = LANGUAGE_MARKERS[lang].reduce((sum, marker) => sum + (counts.get(marker) || 0), 0);
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  });
+
+  return bestScore >= 5 ? best : 'en';
+};
+
+/**
+ * The site's forced language when one is configured, otherwise the detected one.
+ */
+export const resolveContentLanguage = (config: AppConfig, text: string): ContentLanguage => {
+  return config.siteLanguages?.[getPromptSiteKey(config)] || detectContentLanguage(text);
+};
+
+/**
+ * Instruction appended to AI prompts so generated copy matches the post.
+ */
+const languageInstruction = (language: ContentLanguage = 'en'): string => {
+  if (language === 'en') return '';
+  return `\n\nLANGUAGE: Write every human-readable value (verdicts, pros, cons, claims, FAQs, spec values and titles) in ${getBoxLocale(language).languageName}. Keep product names, brands and JSON keys unchanged.`;
+};
+
+// ============================================================================
+// MARKETPLACES - Per-Site Amazon Store, Link Domain & Currency
+// ============================================================================
+
+export interface MarketplaceInfo {
+  id: AmazonMarketplace;
+  name: string;
+  domain: string; // Store domain without "www.", also SerpApi's amazon_domain
+  currency: string; // ISO 4217
+  locale: string; // BCP 47, for price formatting
+  paapiHost: string;
+  paapiRegion: string;
+}
+
+export const MARKETPLACES: Record<AmazonMarketplace, MarketplaceInfo> = {
+  US: { id: 'US', name: 'United States', domain: 'amazon.com', currency: 'USD', locale: 'en-US', paapiHost: 'webservices.amazon.com', paapiRegion: 'us-east-1' },
+  CA: { id: 'CA', name: 'Canada', domain: 'amazon.ca', currency: 'CAD', locale: 'en-CA', paapiHost: 'webservices.amazon.ca', paapiRegion: 'us-east-1' },
+  MX: { id: 'MX', name: 'Mexico', domain: 'amazon.com.mx', currency: 'MXN', locale: 'es-MX', paapiHost: 'webservices.amazon.com.mx', paapiRegion: 'us-east-1' },
+  BR: { id: 'BR', name: 'Brazil', domain: 'amazon.com.br', currency: 'BRL', locale: 'pt-BR', paapiHost: 'webservices.amazon.com.br', paapiRegion: 'us-east-1' },
+  UK: { id: 'UK', name: 'United Kingdom', domain: 'amazon.co.uk', currency: 'GBP', locale: 'en-GB', paapiHost: 'webservices.amazon.co.uk', paapiRegion: 'eu-west-1' },
+  DE: { id: 'DE', name: 'Germany', domain: 'amazon.de', currency: 'EUR', locale: 'de-DE', paapiHost: 'webservices.amazon.de', paapiRegion: 'eu-west-1' },
+  FR: { id: 'FR', name: 'France', domain: 'amazon.fr', currency: 'EUR', locale: 'fr-FR', paapiHost: 'webservices.amazon.fr', paapiRegion: 'eu-west-1' },
+  IT: { id: 'IT', name: 'Italy', domain: 'amazon.it', currency: 'EUR', locale: 'it-IT', paapiHost: 'webservices.amazon.it', paapiRegion: 'eu-west-1' },
+  ES: { id: 'ES', name: 'Spain', domain: 'amazon.es', currency: 'EUR', locale: 'es-ES', paapiHost: 'webservices.amazon.es', paapiRegion: 'eu-west-1' },
+  NL: { id: 'NL', name: 'Netherlands', domain: 'amazon.nl', currency: 'EUR', locale: 'nl-NL', paapiHost: 'webservices.amazon.nl', paapiRegion: 'eu-west-1' },
+  SE: { id: 'SE', name: 'Sweden', domain: 'amazon.se', currency: 'SEK', locale: 'sv-SE', paapiHost: 'webservices.amazon.se', paapiRegion: 'eu-west-1' },
+  PL: { id: 'PL', name: 'Poland', domain: 'amazon.pl', currency: 'PLN', locale: 'pl-PL', paapiHost: 'webservices.amazon.pl', paapiRegion: 'eu-west-1' },
+  IN: { id: 'IN', name: 'India', domain: 'amazon.in', currency: 'INR', locale: 'en-IN', paapiHost: 'webservices.amazon.in', paapiRegion: 'eu-west-1' },
+  AE: { id: 'AE', name: 'United Arab Emirates', domain: 'amazon.ae', currency: 'AED', locale: 'en-AE', paapiHost: 'webservices.amazon.ae', paapiRegion: 'eu-west-1' },
+  JP: { id: 'JP', name: 'Japan', domain: 'amazon.co.jp', currency: 'JPY', locale: 'ja-JP', paapiHost: 'webservices.amazon.co.jp', paapiRegion: 'us-west-2' },
+  AU: { id: 'AU', name: 'Australia', domain: 'amazon.com.au', currency: 'AUD', locale: 'en-AU', paapiHost: 'webservices.amazon.com.au', paapiRegion: 'us-west-2' },
+  SG: { id: 'SG', name: 'Singapore', domain: 'amazon.sg', currency: 'SGD', locale: 'en-SG', paapiHost: 'webservices.amazon.sg', paapiRegion: 'us-west-2' },
+};
+
+/**
+ * Matches any Amazon store host: amazon.com, amazon.co.uk, amazon.com.au, amazon.de...
+ * The capture is the bare domain.
+ */
+const AMAZON_LINK_DOMAIN_REGEX = /https?:\/\/(?:www\.|smile\.)?(amazon\.(?:co\.|com\.)?[a-z]{2,3})(?=[/?#"'\s]|$)/gi;
+
+export const getMarketplace = (id: AmazonMarketplace | undefined): MarketplaceInfo =>
+  MARKETPLACES[id || 'US'] || MARKETPLACES.US;
+
+/**
+ * The site's configured Amazon store, US when none is set.
+ */
+export const resolveMarketplace = (config: Pick<AppConfig, 'wpUrl' | 'siteMarketplaces'>): MarketplaceInfo =>
+  getMarketplace(config.siteMarketplaces?.[getPromptSiteKey(config)]);
+
+/**
+ * Tagged product link on the product's store.
+ */
+export const buildAmazonLink = (asin: string, tag: string, marketplace?: AmazonMarketplace): string =>
+  `https://www.${getMarketplace(marketplace).domain}/dp/${(asin || '').trim()}?tag=${(tag || 'tag-20').trim()}`;
+
+/**
+ * Reads the numeric amount from a display price ("$1,299.99", "1.299,00 €").
+ * Returns null for placeholders like "Check Price".
+ */
+const parsePriceValue = (price: string | undefined): number | null => {
+  const match = (price || '').match(/\d[\d.,]*/);
+  if (!match) return null;
+
+  let digits = match[0];
+  const decimalComma = /,\d{2}$/.test(digits);
+  const thousandsDots = /^\d{1,3}(?:\.\d{3})+$/.test(digits); // "1.299" in European stores
+  digits = decimalComma ? digits.replace(/\./g, '').replace(',', '.')
+    : thousandsDots ? digits.replace(/\./g, '')
+    : digits.replace(/,/g, '');
+  const value = parseFloat(digits);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+/**
+ * Formats a bare amount in the store's currency. Prices that already carry a
+ * symbol or code ("£19.99", "19,99 €") are returned unchanged.
+ */
+export const formatMarketplacePrice = (price: string | number | undefined, marketplace: MarketplaceInfo): string | undefined => {
+  if (price === undefined || price === null || price === '') return undefined;
+  if (typeof price === 'string' && !/^\s*\d[\d.,]*\s*$/.test(price)) return price;
+
+  const amount = typeof price === 'number' ? price : parsePriceValue(price);
+  if (amount === null || !Number.isFinite(amount)) return typeof price === 'string' ? price : undefined;
+  return new Intl.NumberFormat(marketplace.locale, { style: 'currency', currency: marketplace.currency }).format(amount);
+};
+
+export interface ForeignMarketplaceLinks {
+  domain: string;
+  marketplace: AmazonMarketplace | null; // null for Amazon domains outside the table
+  count: number;
+}
+
+/**
+ * Amazon links in the HTML that point at a store other than the site's,
+ * most frequent first. amzn.to short links are not attributed.
+ */
+export const findForeignMarketplaceLinks = (html: string, marketplace: MarketplaceInfo): ForeignMarketplaceLinks[] => {
+  const counts = new Map<string, number>();
+  AMAZON_LINK_DOMAIN_REGEX.lastIndex = 0;
+  let match;
+  while ((match = AMAZON_LINK_DOMAIN_REGEX.exec(html || '')) !== null) {
+    const domain = match[1].toLowerCase();
+    if (domain !== marketplace.domain) counts.set(domain, (counts.get(domain) || 0) + 1);
+  }
+
+  return Array.from(counts, ([domain, count]) => ({
+    domain,
+    marketplace: (Object.values(MARKETPLACES).find(m => m.domain === domain)?.id) || null,
+    count,
+  })).sort((a, b) => b.count - a.count);
+};
+
+// ============================================================================
+// GEO-TARGETED LINKS - Per-Country Store & Tag With Client-Side Picker
+// ============================================================================
+
+/**
+ * IANA time zones mapped to countries. Checked before the browser locale,
+ * which often says en-US regardless of where the visitor is.
+ */
+const GEO_TIMEZONE_COUNTRIES: Record<string, string> = {
+  'America/New_York': 'US', 'America/Chicago': 'US', 'America/Denver': 'US', 'America/Phoenix': 'US',
+  'America/Los_Angeles': 'US', 'America/Anchorage': 'US', 'Pacific/Honolulu': 'US',
+  'America/Toronto': 'CA', 'America/Vancouver': 'CA', 'America/Edmonton': 'CA', 'America/Winnipeg': 'CA', 'America/Halifax': 'CA',
+  'America/Mexico_City': 'MX', 'America/Sao_Paulo': 'BR',
+  'Europe/London': 'GB', 'Europe/Dublin': 'IE', 'Europe/Berlin': 'DE', 'Europe/Vienna': 'AT', 'Europe/Zurich': 'CH',
+  'Europe/Paris': 'FR', 'Europe/Brussels': 'BE', 'Europe/Luxembourg': 'LU', 'Europe/Rome': 'IT', 'Europe/Madrid': 'ES',
+  'Europe/Lisbon': 'PT', 'Europe/Amsterdam': 'NL', 'Europe/Stockholm': 'SE', 'Europe/Warsaw': 'PL',
+  'Asia/Kolkata': 'IN', 'Asia/Calcutta': 'IN', 'Asia/Dubai': 'AE', 'Asia/Tokyo': 'JP', 'Asia/Singapore': 'SG',
+  'Australia/Sydney': 'AU', 'Australia/Melbourne': 'AU', 'Australia/Brisbane': 'AU', 'Australia/Perth': 'AU', 'Australia/Adelaide': 'AU',
+  'Pacific/Auckland': 'NZ',
+};
+
+/**
+ * Inline picker shipped with geo-targeted blocks. Resolves the visitor's
+ * country once per page, then rewrites every not-yet-handled link that has a
+ * variant for it. Safe to include once per block.
+ */
+const GEO_PICKER_SCRIPT = `<script>(function(w,d){if(w.amzGeoCountry===undefined){var c='';try{c=${JSON.stringify(GEO_TIMEZONE_COUNTRIES)}[Intl.DateTimeFormat().resolvedOptions().timeZone]||''}catch(e){}if(!c){var l=navigator.languages||[navigator.language||''];for(var i=0;i<l.length&&!c;i++){var m=/[-_]([a-z]{2})$/i.exec(l[i]||'');if(m)c=m[1].toUpperCase()}}w.amzGeoCountry=c}var k=w.amzGeoCountry;[].forEach.call(d.querySelectorAll('a[data-amz-geo]'),function(a){var g=null;try{g=JSON.parse(a.getAttribute('data-amz-geo'))}catch(e){}a.removeAttribute('data-amz-geo');if(k&&g&&g[k])a.href=g[k]})})(window,document);</script>`;
+
+/**
+ * Country → tagged link for each usable geo target. Targets without a tag,
+ * and stores where the scan found the ASIN unlisted, are skipped.
+ */
+export const getGeoLinks = (
+  product: Pick<ProductDetails, 'asin' | 'geoAvailability'>,
+  geoTargets: GeoTarget[] = []
+): Record<string, string> => {
+  const asin = (product.asin || '').trim();
+  const links: Record<string, string> = {};
+  if (!asin) return links;
+
+  for (const target of geoTargets) {
+    const country = (target.country || '').trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(country) || !(target.tag || '').trim() || !MARKETPLACES[target.marketplace]) continue;
+    if (product.geoAvailability?.[target.marketplace] === false) continue;
+    links[country] = buildAmazonLink(asin, target.tag, target.marketplace);
+  }
+  return links;
+};
+
+/**
+ * data-amz-geo attribute for a link, empty when the product has no variants.
+ */
+const geoLinkAttr = (product: ProductDetails, geoTargets: GeoTarget[]): string => {
+  const links = getGeoLinks(product, geoTargets);
+  return Object.keys(links).length > 0 ? ` data-amz-geo="${escapeHtml(JSON.stringify(links))}"` : '';
+};
+
 // ============================================================================
 // HTML GENERATION - Comparison Table
 // ============================================================================
@@ -882,7 +1385,8 @@ export const createBlogPostFromUrl = (url: string, existingIds: Set<number>): Bl
 export const generateComparisonTableHtml = (
   data: ComparisonData, 
   products: ProductDetails[], 
-  affiliateTag: string
+  affiliateTag: string,
+  geoTargets: GeoTarget[] = []
 ): string => {
   const sortedProducts = data.productIds
     .map(id => products.find(p => p.id === id))
@@ -891,7 +1395,9 @@ export const generateComparisonTableHtml = (
   if (sortedProducts.length === 0) return '';
 
   const finalTag = (affiliateTag || 'tag-20').trim();
+  const geoScript = sortedProducts.some(p => geoLinkAttr(p, geoTargets)) ? GEO_PICKER_SCRIPT : '';
   const cols = sortedProducts.length;
+  const t = getBoxLocale(data.language);
 
   return `<!-- wp:html -->
 <style>
@@ -917,14 +1423,14 @@ export const generateComparisonTableHtml = (
   <div class="comp-grid">
     ${sortedProducts.map((p, idx) => `
     <div class="comp-col">
-      ${idx === 0 ? '<div class="comp-badge">Top Pick</div>' : ''}
-      <a href="https://www.amazon.com/dp/${p.asin}?tag=${finalTag}" target="_blank" rel="nofollow sponsored noopener">
+      ${idx === 0 ? `<div class="comp-badge">${escapeHtml(t.topPick)}</div>` : ''}
+      ${p.imageUrl ? `<a href="${buildAmazonLink(p.asin, finalTag, p.marketplace)}"${geoLinkAttr(p, geoTargets)} target="_blank" rel="nofollow sponsored noopener">
         <img src="${escapeHtml(p.imageUrl)}" class="comp-img" alt="${escapeHtml(p.title)}" loading="lazy" />
-      </a>
+      </a>` : ''}
       <div class="comp-title">${escapeHtml(p.title)}</div>
-      <div style="color:#f59e0b;font-size:14px;margin-bottom:5px">${'★'.repeat(Math.round(p.rating))}${'☆'.repeat(5 - Math.round(p.rating))}</div>
+      ${p.rating ? `<div style="color:#f59e0b;font-size:14px;margin-bottom:5px">${renderStars(p.rating)}</div>` : ''}
       <div class="comp-price">${escapeHtml(p.price)}</div>
-      <a href="https://www.amazon.com/dp/${p.asin}?tag=${finalTag}" target="_blank" rel="nofollow sponsored noopener" class="comp-btn">Check Price</a>
+      <a href="${buildAmazonLink(p.asin, finalTag, p.marketplace)}"${geoLinkAttr(p, geoTargets)} target="_blank" rel="nofollow sponsored noopener" class="comp-btn">${escapeHtml(t.checkPrice)}</a>
     </div>
     `).join('')}
   </div>
@@ -938,7 +1444,7 @@ export const generateComparisonTableHtml = (
     `).join('')}
   </div>
   `).join('')}
-</div>
+</div>${geoScript}
 <!-- /wp:html -->`;
 };
 
@@ -949,7 +1455,8 @@ export const generateComparisonTableHtml = (
 export const generateCarouselHtml = (
   data: CarouselData,
   products: ProductDetails[],
-  affiliateTag: string
+  affiliateTag: string,
+  geoTargets: GeoTarget[] = []
 ): string => {
   const sortedProducts = data.productIds
     .map((id: string) => products.find((p: ProductDetails) => p.id === id))
@@ -958,6 +1465,8 @@ export const generateCarouselHtml = (
   if (sortedProducts.length === 0) return '';
 
   const finalTag = (affiliateTag || 'tag-20').trim();
+  const geoScript = sortedProducts.some(p => geoLinkAttr(p, geoTargets)) ? GEO_PICKER_SCRIPT : '';
+  const t = getBoxLocale(data.language);
 
   return `<!-- wp:html -->
 <style>
@@ -981,18 +1490,18 @@ export const generateCarouselHtml = (
     <div class="amz-carousel-track">
       ${sortedProducts.map((p: ProductDetails) => `
       <div class="amz-carousel-item">
-        <a href="https://www.amazon.com/dp/${p.asin}?tag=${finalTag}" target="_blank" rel="nofollow sponsored noopener">
+        ${p.imageUrl ? `<a href="${buildAmazonLink(p.asin, finalTag, p.marketplace)}"${geoLinkAttr(p, geoTargets)} target="_blank" rel="nofollow sponsored noopener">
           <img src="${escapeHtml(p.imageUrl)}" class="amz-carousel-img" alt="${escapeHtml(p.title)}" loading="lazy" />
-        </a>
+        </a>` : ''}
         <div class="amz-carousel-title">${escapeHtml(p.title)}</div>
-        <div style="color:#fbbf24;font-size:13px;margin-bottom:10px">${'★'.repeat(Math.round(p.rating))}${'☆'.repeat(5 - Math.round(p.rating))}</div>
+        ${p.rating ? `<div style="color:#fbbf24;font-size:13px;margin-bottom:10px">${renderStars(p.rating)}</div>` : ''}
         <div class="amz-carousel-price">${escapeHtml(p.price)}</div>
-        <a href="https://www.amazon.com/dp/${p.asin}?tag=${finalTag}" target="_blank" rel="nofollow sponsored noopener" class="amz-carousel-btn">View Deal</a>
+        <a href="${buildAmazonLink(p.asin, finalTag, p.marketplace)}"${geoLinkAttr(p, geoTargets)} target="_blank" rel="nofollow sponsored noopener" class="amz-carousel-btn">${escapeHtml(t.viewDeal)}</a>
       </div>
       `).join('')}
     </div>
   </div>
-</div>
+</div>${geoScript}
 <!-- /wp:html -->`;
 };
 
@@ -1000,7 +1509,7 @@ export const generateCarouselHtml = (
 // HTML GENERATION - Product Box
 // ============================================================================
 
-const escapeHtml = (str: string): string => {
+const escapeHtml = (str: string | undefined): string => {
   if (!str) return '';
   return str
     .replace(/&/g, '&amp;')
@@ -1010,29 +1519,31 @@ const escapeHtml = (str: string): string => {
     .replace(/'/g, '&#039;');
 };
 
+/**
+ * Five-star string for a 0-5 rating, e.g. "★★★★☆".
+ */
+const renderStars = (rating: number): string => {
+  const stars = Math.max(0, Math.min(5, Math.round(rating)));
+  return `${'★'.repeat(stars)}${'☆'.repeat(5 - stars)}`;
+};
+
 export const generateProductBoxHtml = (
   product: ProductDetails, 
   affiliateTag: string, 
-  mode: DeploymentMode = 'ELITE_BENTO'
+  mode: DeploymentMode = 'ELITE_BENTO',
+  geoTargets: GeoTarget[] = []
 ): string => {
   const finalTag = (affiliateTag || 'tag-20').trim();
   const asin = (product.asin || '').trim();
-  const link = `https://www.amazon.com/dp/${asin}?tag=${finalTag}`;
-  const stars = Math.round(product.rating || 5);
+  const link = buildAmazonLink(asin, finalTag, product.marketplace);
+  const geoAttr = geoLinkAttr(product, geoTargets);
+  const geoScript = geoAttr ? GEO_PICKER_SCRIPT : '';
+  const t = getBoxLocale(product.language);
   
-  const bullets = (product.evidenceClaims || [
-    "Premium build quality",
-    "Industry-leading performance", 
-    "Comprehensive warranty",
-    "Trusted by thousands"
-  ]).slice(0, 4);
-
-  const faqs = (product.faqs || [
-    { question: "Is this covered by warranty?", answer: "Yes, comprehensive manufacturer warranty included." },
-    { question: "How fast is shipping?", answer: "Eligible for Prime shipping with free returns." },
-    { question: "What's in the package?", answer: "Complete package with all accessories included." },
-    { question: "Is support available?", answer: "24/7 customer support through multiple channels." }
-  ]).slice(0, 4);
+  // No canned bullets or FAQs: boxes only show copy that went through the claim linter
+  const bullets = (product.evidenceClaims?.length ? product.evidenceClaims : product.pros || []).slice(0, 4);
+
+  const faqs = (product.faqs || []).slice(0, 4);
 
   // TACTICAL LINK Mode
   if (mode === 'TACTICAL_LINK') {
@@ -1058,29 +1569,29 @@ export const generateProductBoxHtml = (
 </style>
 <div class="amz-tac-v4">
   <div class="amz-tac-card">
-    <div class="amz-tac-img-box">
+    ${product.imageUrl ? `<div class="amz-tac-img-box">
       <img src="${escapeHtml(product.imageUrl)}" alt="${escapeHtml(product.title)}" loading="lazy" />
-    </div>
+    </div>` : ''}
     <div class="amz-tac-body">
       <div class="amz-tac-tag">
         <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3"><path d="M20 6L9 17l-5-5"/></svg>
-        Verified Choice
+        ${escapeHtml(getRoleBadgeLabel(t, product.role, t.verifiedChoice))}
       </div>
       <h3 class="amz-tac-title">${escapeHtml(product.title)}</h3>
-      <div class="amz-tac-rating">
-        <span class="amz-tac-stars">${'★'.repeat(stars)}${'☆'.repeat(5-stars)}</span>
-        <span class="amz-tac-count">${product.reviewCount || '1,200'}+ reviews</span>
-      </div>
+      ${product.rating ? `<div class="amz-tac-rating">
+        <span class="amz-tac-stars">${renderStars(product.rating)}</span>
+        ${product.reviewCount ? `<span class="amz-tac-count">${escapeHtml(t.reviews(String(product.reviewCount)))}</span>` : ''}
+      </div>` : ''}
     </div>
     <div class="amz-tac-side">
       <div class="amz-tac-price">${escapeHtml(product.price)}</div>
-      <a href="${link}" target="_blank" rel="nofollow sponsored noopener" class="amz-tac-btn">
-        View Deal
+      <a href="${link}"${geoAttr} target="_blank" rel="nofollow sponsored noopener" class="amz-tac-btn">
+        ${escapeHtml(t.viewDeal)}
         <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3"><path d="M5 12h14M12 5l7 7-7 7"/></svg>
       </a>
     </div>
   </div>
-</div>
+</div>${geoScript}
 <!-- /wp:html -->`;
   }
 
@@ -1152,46 +1663,46 @@ export const generateProductBoxHtml = (
   <div class="amz-bento-container">
     <div class="amz-bento-grid">
       <div class="amz-bento-visual">
-        <div class="amz-bento-badge">Top Pick</div>
-        <div class="amz-bento-img-wrap">
+        <div class="amz-bento-badge">${escapeHtml(getRoleBadgeLabel(t, product.role, t.topPick))}</div>
+        ${product.imageUrl ? `<div class="amz-bento-img-wrap">
           <img src="${escapeHtml(product.imageUrl)}" alt="${escapeHtml(product.title)}" loading="lazy" />
-        </div>
-        <div class="amz-bento-rating-pill">
-          <div class="amz-bento-stars">${'★'.repeat(stars)}${'☆'.repeat(5-stars)}</div>
-          <div class="amz-bento-rating-val">${product.rating || '4.9'} / 5.0</div>
-        </div>
+        </div>` : ''}
+        ${product.rating ? `<div class="amz-bento-rating-pill">
+          <div class="amz-bento-stars">${renderStars(product.rating)}</div>
+          <div class="amz-bento-rating-val">${product.rating} / 5.0</div>
+        </div>` : ''}
       </div>
       <div class="amz-bento-content">
         <div class="amz-bento-meta">
-          <span class="amz-bento-cat">${escapeHtml(product.category || 'Premium')}</span>
-          ${product.prime ? '<span class="amz-bento-prime"><svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3"><polyline points="20 6 9 17 4 12"/></svg> Prime Shipping</span>' : ''}
+          <span class="amz-bento-cat">${escapeHtml(product.category || t.defaultCategory)}</span>
+          ${product.prime ? `<span class="amz-bento-prime"><svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3"><polyline points="20 6 9 17 4 12"/></svg> ${escapeHtml(t.primeShipping)}</span>` : ''}
         </div>
         <h2 class="amz-bento-title">${escapeHtml(product.title)}</h2>
         <div class="amz-bento-verdict">
-          <p>${escapeHtml(product.verdict || 'A masterclass in design and engineering, offering unparalleled performance for demanding users.')}</p>
+          <p>${escapeHtml(product.verdict || t.defaultVerdict)}</p>
         </div>
-        <div class="amz-bento-features">${bulletsHtml}</div>
+        ${bulletsHtml ? `<div class="amz-bento-features">${bulletsHtml}</div>` : ''}
         <div class="amz-bento-footer">
           <div class="amz-bento-price-box">
-            <span class="amz-bento-price-label">Best Price</span>
+            <span class="amz-bento-price-label">${escapeHtml(t.bestPrice)}</span>
             <div class="amz-bento-price">${escapeHtml(product.price)}</div>
           </div>
-          <a href="${link}" target="_blank" rel="nofollow sponsored noopener" class="amz-bento-btn">
-            Check Price
+          <a href="${link}"${geoAttr} target="_blank" rel="nofollow sponsored noopener" class="amz-bento-btn">
+            ${escapeHtml(t.checkPrice)}
             <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3"><path d="M5 12h14M12 5l7 7-7 7"/></svg>
           </a>
         </div>
       </div>
     </div>
-    <div class="amz-bento-faqs">
+    ${faqsHtml ? `<div class="amz-bento-faqs">
       <h3 class="amz-bento-faqs-title">
         <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5"><circle cx="12" cy="12" r="10"/><path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3"/><line x1="12" y1="17" x2="12.01" y2="17"/></svg>
-        Common Questions
+        ${escapeHtml(t.commonQuestions)}
       </h3>
       <div class="amz-bento-faqs-grid">${faqsHtml}</div>
-    </div>
+    </div>` : ''}
   </div>
-</div>
+</div>${geoScript}
 <!-- /wp:html -->`;
   };
 
@@ -1200,9 +1711,12 @@ export const generateProductBoxHtml = (
 // JSON SANITIZER - NEVER THROWS
 // ============================================================================
 
-const cleanAndParseJSON = (text: string): { products: any[]; comparison: any } => {
-  const emptyResult = { products: [], comparison: null };
-  if (!text || typeof text !== 'string') return emptyResult;
+/**
+ * Parses model output that may be wrapped in fences or prose. Returns null
+ * when no JSON object can be recovered.
+ */
+const tryParseAIJson = (text: string): unknown | null => {
+  if (!text || typeof text !== 'string') return null;
 
   try { return JSON.parse(text); } catch {}
   try {
@@ -1219,7 +1733,306 @@ const cleanAndParseJSON = (text: string): { products: any[]; comparison: any } =
     return JSON.parse(cleaned);
   } catch {}
 
-  return emptyResult;
+  return null;
+};
+
+const cleanAndParseJSON = (text: string): { products: any[]; comparison: any } => {
+  const parsed = tryParseAIJson(text);
+  return parsed && typeof parsed === 'object'
+    ? parsed as { products: any[]; comparison: any }
+    : { products: [], comparison: null };
+};
+
+// ============================================================================
+// AI PROVIDER ADAPTERS - One Interface, Five Backends
+// ============================================================================
+
+export interface AIGenerateRequest {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  jsonMode?: boolean;
+  purpose?: string; // Label recorded in the usage ledger (e.g. "extraction")
+  signal?: AbortSignal; // Aborts the request early (e.g. a cancelled scan)
+}
+
+export interface AIModelOption {
+  id: string;
+  label: string;
+  inputPer1M?: number; // USD per million input tokens
+  outputPer1M?: number; // USD per million output tokens
+}
+
+export interface AIGenerateResult {
+  text: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface AIProviderAdapter {
+  id: AIProvider;
+  label: string;
+  defaultModel: string;
+  models: AIModelOption[];
+  generate: (request: AIGenerateRequest, apiKey: string) => Promise<AIGenerateResult>;
+}
+
+/**
+ * Appended to the system prompt so providers without a native JSON mode
+ * (and those whose JSON mode requires the word "JSON") behave identically.
+ */
+const JSON_MODE_SUFFIX = '\n\nRespond with a single valid JSON object only. No markdown fences, no commentary.';
+
+const withJsonMode = (request: AIGenerateRequest): string =>
+  request.jsonMode ? `${request.systemPrompt}${JSON_MODE_SUFFIX}` : request.systemPrompt;
+
+const readProviderError = async (response: Response): Promise<string> => {
+  const errorJson = await response.json().catch(() => null);
+  return errorJson?.error?.message || errorJson?.message || response.statusText;
+};
+
+const geminiAdapter: AIProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.0-flash',
+  models: [
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash (Recommended)', inputPer1M: 0.10, outputPer1M: 0.40 },
+    { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash (Fallback)', inputPer1M: 0.075, outputPer1M: 0.30 },
+    { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro (High Quality)', inputPer1M: 1.25, outputPer1M: 5.00 },
+  ],
+  generate: async (request, apiKey) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: [{ role: 'user', parts: [{ text: request.userPrompt }] }],
+      config: {
+        systemInstruction: withJsonMode(request),
+        ...(request.jsonMode ? { responseMimeType: 'application/json' } : {}),
+        abortSignal: withCallerSignal(AbortSignal.timeout(CONFIG.AI.REQUEST_TIMEOUT_MS), request.signal),
+      },
+    });
+    return {
+      text: response?.text || '',
+      inputTokens: response?.usageMetadata?.promptTokenCount,
+      outputTokens: response?.usageMetadata?.candidatesTokenCount,
+    };
+  },
+};
+
+/**
+ * OpenAI, Groq and OpenRouter all speak the OpenAI chat-completions dialect,
+ * so they share one adapter factory and differ only in base URL and models.
+ */
+const createOpenAICompatibleAdapter = (
+  id: AIProvider,
+  label: string,
+  baseUrl: string,
+  models: AIModelOption[],
+  extraHeaders: Record<string, string> = {}
+): AIProviderAdapter => ({
+  id,
+  label,
+  defaultModel: models[0].id,
+  models,
+  generate: async (request, apiKey) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+        ...extraHeaders,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [
+          { role: 'system', content: withJsonMode(request) },
+          { role: 'user', content: request.userPrompt },
+        ],
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+      signal: withCallerSignal(AbortSignal.timeout(CONFIG.AI.REQUEST_TIMEOUT_MS), request.signal),
+    });
+
+    if (!response.ok) {
+      throw new AIProcessingError(
+        `${label} Error [${response.status}]: ${await readProviderError(response)}`,
+        request.model
+      );
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      inputTokens: data.usage?.prompt_tokens,
+      outputTokens: data.usage?.completion_tokens,
+    };
+  },
+});
+
+const anthropicAdapter: AIProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic Claude',
+  defaultModel: 'claude-3-5-haiku-latest',
+  models: [
+    { id: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku (Fast)', inputPer1M: 0.80, outputPer1M: 4.00 },
+    { id: 'claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet (High Quality)', inputPer1M: 3.00, outputPer1M: 15.00 },
+  ],
+  generate: async (request, apiKey) => {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: CONFIG.AI.MAX_OUTPUT_TOKENS,
+        system: withJsonMode(request),
+        messages: [{ role: 'user', content: request.userPrompt }],
+      }),
+      signal: withCallerSignal(AbortSignal.timeout(CONFIG.AI.REQUEST_TIMEOUT_MS), request.signal),
+    });
+
+    if (!response.ok) {
+      throw new AIProcessingError(
+        `${anthropicAdapter.label} Error [${response.status}]: ${await readProviderError(response)}`,
+        request.model
+      );
+    }
+
+    const data = await response.json();
+    return {
+      text: (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join(''),
+      inputTokens: data.usage?.input_tokens,
+      outputTokens: data.usage?.output_tokens,
+    };
+  },
+};
+
+export const AI_PROVIDERS: Record<AIProvider, AIProviderAdapter> = {
+  gemini: geminiAdapter,
+  openai: createOpenAICompatibleAdapter('openai', 'OpenAI', 'https://api.openai.com/v1', [
+    { id: 'gpt-4o-mini', label: 'GPT-4o Mini (Recommended)', inputPer1M: 0.15, outputPer1M: 0.60 },
+    { id: 'gpt-4o', label: 'GPT-4o (High Quality)', inputPer1M: 2.50, outputPer1M: 10.00 },
+  ]),
+  anthropic: anthropicAdapter,
+  groq: createOpenAICompatibleAdapter('groq', 'Groq', 'https://api.groq.com/openai/v1', [
+    { id: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70B (Recommended)', inputPer1M: 0.59, outputPer1M: 0.79 },
+    { id: 'llama-3.1-8b-instant', label: 'Llama 3.1 8B (Fastest)', inputPer1M: 0.05, outputPer1M: 0.08 },
+  ]),
+  openrouter: createOpenAICompatibleAdapter(
+    'openrouter',
+    'OpenRouter',
+    'https://openrouter.ai/api/v1',
+    [
+      { id: 'google/gemini-2.0-flash-001', label: 'Gemini 2.0 Flash (via OpenRouter)', inputPer1M: 0.10, outputPer1M: 0.40 },
+      { id: 'openai/gpt-4o-mini', label: 'GPT-4o Mini (via OpenRouter)', inputPer1M: 0.15, outputPer1M: 0.60 },
+      { id: 'anthropic/claude-3.5-sonnet', label: 'Claude 3.5 Sonnet (via OpenRouter)', inputPer1M: 3.00, outputPer1M: 15.00 },
+      { id: 'meta-llama/llama-3.3-70b-instruct', label: 'Llama 3.3 70B (via OpenRouter)', inputPer1M: 0.13, outputPer1M: 0.40 },
+    ],
+    { 'X-Title': 'AmzWP-Automator' }
+  ),
+};
+
+/**
+ * Resolves the model to use for the configured provider. A model that belongs
+ * to a different provider (e.g. a stale setting after switching) falls back
+ * to the provider default; unknown ids pass through for custom models.
+ */
+export const resolveAIModel = (config: Pick<AppConfig, 'aiProvider' | 'aiModel'>): string => {
+  const adapter = AI_PROVIDERS[config.aiProvider] || geminiAdapter;
+  const model = (config.aiModel || '').trim();
+  if (!model) return adapter.defaultModel;
+
+  const ownedByOther = Object.values(AI_PROVIDERS).some(
+    a => a.id !== adapter.id && a.models.some(m => m.id === model)
+  );
+  return ownedByOther ? adapter.defaultModel : model;
+};
+
+/**
+ * Runs a prompt through the provider selected in config. Every call is checked
+ * against the session budget and recorded in the usage ledger.
+ */
+export const generateAIContent = async (
+  config: AppConfig,
+  apiKey: string,
+  request: Omit<AIGenerateRequest, 'model'>
+): Promise<string> => {
+  const adapter = AI_PROVIDERS[config.aiProvider] || geminiAdapter;
+  const model = resolveAIModel(config);
+
+  assertAIBudget(config);
+
+  let result: AIGenerateResult;
+  try {
+    result = await adapter.generate({ ...request, model }, apiKey);
+  } catch (error: any) {
+    if (error instanceof AIProcessingError) throw error;
+    throw new AIProcessingError(`${adapter.label}: ${error?.message || 'Request failed'}`, model);
+  }
+
+  AIUsageLedger.record({
+    provider: adapter.id,
+    model,
+    purpose: request.purpose || 'general',
+    inputTokens: result.inputTokens ?? estimateTokens(request.systemPrompt + request.userPrompt),
+    outputTokens: result.outputTokens ?? estimateTokens(result.text),
+    estimated: result.inputTokens === undefined || result.outputTokens === undefined,
+  });
+
+  return result.text;
+};
+
+/**
+ * Returns the decrypted runtime API key for a provider (defaults to the active one).
+ */
+export const getAIApiKey = (config: AppConfig, provider: AIProvider = config.aiProvider): string => {
+  return SecureStorage.decrypt(config.aiApiKeys?.[provider] || '').trim();
+};
+
+/**
+ * Like getAIApiKey, but fails loudly so AI features never silently degrade.
+ */
+export const requireAIApiKey = (config: AppConfig): string => {
+  const apiKey = getAIApiKey(config);
+  if (!apiKey) {
+    throw new ValidationError(
+      `No ${AI_PROVIDERS[config.aiProvider]?.label || 'AI'} API key configured. Add one in Settings → Brain Core.`,
+      'aiApiKeys'
+    );
+  }
+  return apiKey;
+};
+
+/**
+ * Sends a minimal prompt to verify that a provider key is accepted.
+ */
+export const validateAIApiKey = async (
+  config: AppConfig,
+  provider: AIProvider,
+  apiKey: string
+): Promise<{ success: boolean; message: string }> => {
+  const adapter = AI_PROVIDERS[provider];
+  if (!apiKey.trim()) {
+    return { success: false, message: `Enter a ${adapter.label} API key first` };
+  }
+
+  try {
+    await generateAIContent({ ...config, aiProvider: provider }, apiKey.trim(), {
+      systemPrompt: 'You are a connectivity check.',
+      userPrompt: 'Reply with the single word OK.',
+      purpose: 'key-check',
+    });
+    return { success: true, message: `${adapter.label} key verified` };
+  } catch (error: any) {
+    return { success: false, message: error?.message || `${adapter.label} rejected the key` };
+  }
 };
 
 // ============================================================================
@@ -1231,6 +2044,7 @@ interface ExtractedProduct {
   name: string;
   source: 'link' | 'heading' | 'list' | 'text';
   confidence: number;
+  shortLinks?: string[]; // amzn.to URLs that resolved to this ASIN
 }
 
 const FORBIDDEN_PRODUCT_WORDS = [
@@ -1242,30 +2056,117 @@ const FORBIDDEN_PRODUCT_WORDS = [
   'read more', 'click here', 'view on amazon', 'check price', 'buy now'
 ];
 
-const preExtractAmazonProducts = (html: string): ExtractedProduct[] => {
-  const products: ExtractedProduct[] = [];
-  const seenAsins = new Set<string>();
-  const seenNames = new Set<string>();
-
-  const isForbidden = (text: string) => {
-    const lower = text.toLowerCase();
-    return FORBIDDEN_PRODUCT_WORDS.some(word => lower.includes(word)) || text.length < 5;
-  };
-
-  // STRATEGY 1: Extract ASINs from Amazon URLs (highest confidence)
-  const asinPatterns = [
-    /amazon\.com\/(?:dp|gp\/product|exec\/obidos\/ASIN)\/([A-Z0-9]{10})/gi,
-    /amazon\.com\/[^"'\s]*\/dp\/([A-Z0-9]{10})/gi,
-    /amazon\.com\/[^"'\s]*?(?:\/|%2F)([A-Z0-9]{10})(?:[/?&"'\s]|$)/gi,
-    /amzn\.to\/([A-Za-z0-9]+)/gi,
+/**
+ * Regexes behind each pre-extraction strategy. Kept at module level so the
+ * extraction regression report can fingerprint them alongside the word list.
+ */
+const EXTRACTION_PATTERNS = {
+  asin: [
+    /amazon\.(?:co\.|com\.)?[a-z]{2,3}\/(?:dp|gp\/product|exec\/obidos\/ASIN)\/([A-Z0-9]{10})/gi,
+    /amazon\.(?:co\.|com\.)?[a-z]{2,3}\/[^"'\s]*\/dp\/([A-Z0-9]{10})/gi,
+    /amazon\.(?:co\.|com\.)?[a-z]{2,3}\/[^"'\s]*?(?:\/|%2F)([A-Z0-9]{10})(?:[/?&"'\s]|$)/gi,
     /data-asin=["']([A-Z0-9]{10})["']/gi,
     /asin["':\s]+["']?([A-Z0-9]{10})["']?/gi,
-  ];
+  ],
+  shortLink: /https?:\/\/amzn\.(?:to|eu|asia)\/[A-Za-z0-9]+/gi,
+  linkText: /<a[^>]*amazon\.(?:co\.|com\.)?[a-z]{2,3}\b[^>]*>([^<]{5,120})<\/a>/gi,
+  anchorAsin: /\/(?:dp|gp\/product|exec\/obidos\/ASIN)\/([A-Z0-9]{10})/i,
+  urlText: /^(?:https?:\/\/|www\.)|^[\w-]+(?:\.[a-z]{2,3}){1,2}$/i,
+  headingLabel: /^[^:]{0,40}?\b(?:best|top|pick|choice|winner|overall|budget|premium|upgrade|runner[- ]up|editor'?s|recommended|value)\b[^:]{0,40}:\s+/i,
+  heading: /<h[1-4][^>]*>([^<]*(?:Best|Top|Review|Pick|Choice|Recommended|Editor|Winner|#\d|Overall|Budget|Premium)[^<]*)<\/h[1-4]>/gi,
+  list: /<li[^>]*>(?:<[^>]*>)*([^<]*(?:[A-Z][a-z]+\s+[A-Z][a-z]+)[^<]{10,100})(?:<[^>]*>)*<\/li>/gi,
+  productIndicator: /\b(pro|plus|max|ultra|mini|lite|series|gen|edition|version|\d{3,4}[a-z]*|v\d+|mk\s*\d+)\b/i,
+  brandModel: /\b(Apple|Samsung|Sony|LG|Bose|JBL|Anker|Logitech|Razer|Corsair|HyperX|SteelSeries|Ninja|Instant Pot|KitchenAid|Cuisinart|Dyson|iRobot|Roomba|Shark|Vitamix|Breville|De'?Longhi|Keurig|Nespresso|GoPro|Canon|Nikon|Fujifilm|DJI|Ring|Nest|Arlo|Philips|Oral-B|Waterpik|Fitbit|Garmin|Whoop|Oura|Theragun|Hyperice|NordicTrack|Peloton|Bowflex|RENPHO|Wyze|TP-Link|Netgear|Asus|Dell|HP|Lenovo|Microsoft|Google|Amazon|Echo|Kindle|Fire|Roku|Vizio|TCL|Hisense|Sonos|Marshall|Klipsch|Audio-Technica|Shure|Blue|Yeti|Elgato|Western Digital|Seagate|Crucial|Kingston|Sandisk|Intel|AMD|Nvidia|Gigabyte|MSI|EVGA|Zotac|Asrock|Noctua|Be Quiet|Cooler Master|Thermaltake|NZXT|Fractal Design|Lian Li|Phanteks|Corsair|G.Skill|Teamgroup|Patriot|Sabrent|Samsung|Western Digital|Seagate|Crucial|Kingston|Sandisk)\s+([A-Z0-9][a-z0-9]*\s*[\w\-]+(?:\s+[\w\-]+){0,3})/g,
+};
 
-  for (const pattern of asinPatterns) {
-    let match;
-    while ((match = pattern.exec(html)) !== null) {
-      const asin = match[1].toUpperCase();
+/**
+ * Expands the amzn.to-style short links in the HTML to ASINs through the
+ * proxy layer. Results are cached; links that fail to resolve are left out.
+ */
+const resolveAmazonShortLinks = async (html: string, signal?: AbortSignal): Promise<Map<string, string>> => {
+  const pattern = EXTRACTION_PATTERNS.shortLink;
+  pattern.lastIndex = 0;
+  const urls = Array.from(new Set((html.match(pattern) || []).map(u => u.replace(/^http:/i, 'https:'))));
+  const resolved = new Map<string, string>();
+
+  const pending = urls.filter(url => {
+    const cached = IntelligenceCache.getShortLink(url);
+    if (cached) resolved.set(url, cached);
+    return !cached;
+  });
+
+  await runConcurrent(pending, CONFIG.NETWORK.SHORT_LINK_CONCURRENCY, async (url) => {
+    if (signal?.aborted) return;
+    try {
+      const target = await resolveRedirectUrl(url, undefined, signal);
+      const asin = extractAsinFromUrl(target);
+      if (!asin) {
+        console.warn(`[preExtract] ${url} resolved to ${target}, which has no ASIN`);
+        return;
+      }
+      resolved.set(url, asin);
+      IntelligenceCache.setShortLink(url, asin);
+    } catch (error: any) {
+      console.warn(`[preExtract] Could not expand ${url}:`, error.message);
+    }
+  });
+
+  console.log(`[preExtract] Short links: ${resolved.size}/${urls.length} resolved (${urls.length - pending.length} cached)`);
+  return resolved;
+};
+
+/**
+ * Swaps short links that resolved to one of the products for the product's
+ * tagged canonical link. Unresolved short links are left as they are.
+ */
+export const replaceShortLinks = (
+  html: string,
+  products: ProductDetails[],
+  affiliateTag: string
+): { html: string; replaced: number } => {
+  const targets = new Map<string, ProductDetails>();
+  products.forEach(p => {
+    if (p.asin) p.shortLinks?.forEach(link => targets.set(link, p));
+  });
+
+  let replaced = 0;
+  const output = html.replace(new RegExp(EXTRACTION_PATTERNS.shortLink.source, 'gi'), url => {
+    const product = targets.get(url.replace(/^http:/i, 'https:'));
+    if (!product) return url;
+    replaced++;
+    return buildAmazonLink(product.asin, affiliateTag, product.marketplace);
+  });
+  return { html: output, replaced };
+};
+
+/**
+ * First ASIN found in an Amazon product URL, or null.
+ */
+const extractAsinFromUrl = (url: string): string | null => {
+  for (const pattern of EXTRACTION_PATTERNS.asin.slice(0, 3)) {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(url);
+    if (match) return match[1].toUpperCase();
+  }
+  return null;
+};
+
+const preExtractAmazonProducts = (html: string, shortLinks: Map<string, string> = new Map()): ExtractedProduct[] => {
+  const products: ExtractedProduct[] = [];
+  const seenAsins = new Set<string>();
+  const seenNames = new Set<string>();
+
+  const isForbidden = (text: string) => {
+    const lower = text.toLowerCase();
+    return FORBIDDEN_PRODUCT_WORDS.some(word => lower.includes(word)) || text.length < 5;
+  };
+
+  // STRATEGY 1: Extract ASINs from Amazon URLs (highest confidence)
+  for (const pattern of EXTRACTION_PATTERNS.asin) {
+    pattern.lastIndex = 0;
+    let match;
+    while ((match = pattern.exec(html)) !== null) {
+      const asin = match[1].toUpperCase();
       if (asin.length === 10 && /^[A-Z0-9]+$/.test(asin) && !seenAsins.has(asin)) {
         seenAsins.add(asin);
         products.push({ asin, name: '', source: 'link', confidence: 1.0 });
@@ -1273,25 +2174,50 @@ const preExtractAmazonProducts = (html: string): ExtractedProduct[] => {
     }
   }
 
+  // STRATEGY 1B: Short links expanded ahead of time (resolveAmazonShortLinks)
+  shortLinks.forEach((asin, shortLink) => {
+    const existing = products.find(p => p.asin === asin);
+    if (existing) {
+      existing.shortLinks = [...(existing.shortLinks || []), shortLink];
+    } else {
+      seenAsins.add(asin);
+      products.push({ asin, name: '', source: 'link', confidence: 1.0, shortLinks: [shortLink] });
+    }
+  });
+
   // STRATEGY 2: Extract product names from Amazon link text
-  const linkTextPattern = /<a[^>]*amazon\.com[^>]*>([^<]{5,120})<\/a>/gi;
+  const linkTextPattern = EXTRACTION_PATTERNS.linkText;
+  linkTextPattern.lastIndex = 0;
   let linkMatch;
   while ((linkMatch = linkTextPattern.exec(html)) !== null) {
     const name = linkMatch[1].trim().replace(/\s+/g, ' ');
-    if (name.length > 8 && !isForbidden(name) && !seenNames.has(name.toLowerCase())) {
+    if (name.length > 8 && !isForbidden(name) && !EXTRACTION_PATTERNS.urlText.test(name) && !seenNames.has(name.toLowerCase())) {
       seenNames.add(name.toLowerCase());
-      products.push({ asin: '', name, source: 'link', confidence: 0.95 });
+      // Link text names the ASIN its own anchor points at
+      const anchorAsin = (linkMatch[0].match(EXTRACTION_PATTERNS.anchorAsin) || [])[1]?.toUpperCase();
+      const linked = anchorAsin ? products.find(p => p.asin === anchorAsin) : undefined;
+      if (linked) {
+        linked.name = linked.name || name;
+      } else {
+        products.push({ asin: '', name, source: 'link', confidence: 0.95 });
+      }
     }
   }
 
   // STRATEGY 3: Extract from headings with product indicators
-  const headingPattern = /<h[1-4][^>]*>([^<]*(?:Best|Top|Review|Pick|Choice|Recommended|Editor|Winner|#\d|Overall|Budget|Premium)[^<]*)<\/h[1-4]>/gi;
+  const headingPattern = EXTRACTION_PATTERNS.heading;
+  headingPattern.lastIndex = 0;
   let headingMatch;
   while ((headingMatch = headingPattern.exec(html)) !== null) {
     const text = headingMatch[1].replace(/<[^>]*>/g, '').trim();
     if (text.length > 5 && text.length < 150 && !isForbidden(text) && !seenNames.has(text.toLowerCase())) {
-      // Clean up common listicle prefixes like "1. ", "Best Overall: "
-      const cleanName = text.replace(/^\d+[\.\s\-]+/, '').replace(/^(Best|Top|Winner|Pick|Choice|Recommended|Overall|Budget|Premium)\s*[:\-]*\s*/i, '').trim();
+      // Clean up common listicle prefixes like "1. ", "Best Overall: ", "Best for Comfort: "
+      const unnumbered = text.replace(/^\d+[\.\s\-]+/, '');
+      const label = unnumbered.match(EXTRACTION_PATTERNS.headingLabel);
+      const cleanName = (label
+        ? unnumbered.slice(label[0].length)
+        : unnumbered.replace(/^(Best|Top|Winner|Pick|Choice|Recommended|Overall|Budget|Premium)\s*[:\-]*\s*/i, '')
+      ).trim();
       if (cleanName.length > 5 && !seenNames.has(cleanName.toLowerCase())) {
         seenNames.add(cleanName.toLowerCase());
         products.push({ asin: '', name: cleanName, source: 'heading', confidence: 0.85 });
@@ -1300,12 +2226,13 @@ const preExtractAmazonProducts = (html: string): ExtractedProduct[] => {
   }
 
   // STRATEGY 4: Extract from numbered/bulleted lists (more strict)
-  const listPattern = /<li[^>]*>(?:<[^>]*>)*([^<]*(?:[A-Z][a-z]+\s+[A-Z][a-z]+)[^<]{10,100})(?:<[^>]*>)*<\/li>/gi;
+  const listPattern = EXTRACTION_PATTERNS.list;
+  listPattern.lastIndex = 0;
   let listMatch;
   while ((listMatch = listPattern.exec(html)) !== null) {
     const text = listMatch[1].replace(/<[^>]*>/g, '').trim();
     if (text.length > 15 && text.length < 100 && !isForbidden(text) && !seenNames.has(text.toLowerCase())) {
-      const hasProductIndicator = /\b(pro|plus|max|ultra|mini|lite|series|gen|edition|version|\d{3,4}[a-z]*|v\d+|mk\s*\d+)\b/i.test(text);
+      const hasProductIndicator = EXTRACTION_PATTERNS.productIndicator.test(text);
       if (hasProductIndicator) {
         seenNames.add(text.toLowerCase());
         products.push({ asin: '', name: text, source: 'list', confidence: 0.7 });
@@ -1314,7 +2241,8 @@ const preExtractAmazonProducts = (html: string): ExtractedProduct[] => {
   }
 
   // STRATEGY 5: Extract brand + model patterns from text (expanded list)
-  const brandModelPattern = /\b(Apple|Samsung|Sony|LG|Bose|JBL|Anker|Logitech|Razer|Corsair|HyperX|SteelSeries|Ninja|Instant Pot|KitchenAid|Cuisinart|Dyson|iRobot|Roomba|Shark|Vitamix|Breville|De'?Longhi|Keurig|Nespresso|GoPro|Canon|Nikon|Fujifilm|DJI|Ring|Nest|Arlo|Philips|Oral-B|Waterpik|Fitbit|Garmin|Whoop|Oura|Theragun|Hyperice|NordicTrack|Peloton|Bowflex|RENPHO|Wyze|TP-Link|Netgear|Asus|Dell|HP|Lenovo|Microsoft|Google|Amazon|Echo|Kindle|Fire|Roku|Vizio|TCL|Hisense|Sonos|Marshall|Klipsch|Audio-Technica|Shure|Blue|Yeti|Elgato|Western Digital|Seagate|Crucial|Kingston|Sandisk|Intel|AMD|Nvidia|Gigabyte|MSI|EVGA|Zotac|Asrock|Noctua|Be Quiet|Cooler Master|Thermaltake|NZXT|Fractal Design|Lian Li|Phanteks|Corsair|G.Skill|Teamgroup|Patriot|Sabrent|Samsung|Western Digital|Seagate|Crucial|Kingston|Sandisk)\s+([A-Z0-9][a-z0-9]*\s*[\w\-]+(?:\s+[\w\-]+){0,3})/g;
+  const brandModelPattern = EXTRACTION_PATTERNS.brandModel;
+  brandModelPattern.lastIndex = 0;
   
   let brandMatch;
   while ((brandMatch = brandModelPattern.exec(html)) !== null) {
@@ -1336,7 +2264,20 @@ const preExtractAmazonProducts = (html: string): ExtractedProduct[] => {
 // DYNAMIC PRODUCT-SPECIFIC DESCRIPTION GENERATOR
 // ============================================================================
 
-const generateDynamicVerdict = (productName: string, brand: string, category: string, existingVerdict?: string): string => {
+const generateDynamicVerdict = (
+  productName: string,
+  brand: string,
+  category: string,
+  existingVerdict?: string,
+  language: ContentLanguage = 'en'
+): string => {
+  // Non-English posts: keep the AI verdict when present, otherwise a neutral localized one
+  if (language !== 'en') {
+    const sentences = (existingVerdict || '').trim().match(/[^.!?]+[.!?]+/g) || [];
+    if (sentences.length >= 2) return sentences.slice(0, 3).join(' ').trim();
+    return getBoxLocale(language).fallbackVerdict(brand, productName.replace(/[^\p{L}\p{N}\s\-]/gu, '').trim());
+  }
+
   // Use AI verdict if it's good quality (specific, 3 sentences, doesn't start with forbidden words)
   if (existingVerdict && existingVerdict.trim().length > 100) {
     let clean = existingVerdict.trim();
@@ -1427,267 +2368,1747 @@ const generateDynamicVerdict = (productName: string, brand: string, category: st
 };
 
 // ============================================================================
-// ULTRA-RELIABLE AI ANALYSIS ENGINE
+// CLAIM SAFETY LINTER - Unverifiable Numeric, Warranty & Endorsement Claims
 // ============================================================================
 
-export const analyzeContentAndFindProduct = async (
-  title: string,
-  htmlContent: string,
-  config: AppConfig
-): Promise<{
-  detectedProducts: ProductDetails[];
-  product: ProductDetails | null;
-  comparison?: ComparisonData;
-  carousel?: CarouselData;
-}> => {
-  console.log('[SCAN] Starting ultra-reliable product detection...');
-  console.log('[SCAN] Title:', title);
-  console.log('[SCAN] Content length:', htmlContent.length);
+export type ClaimIssueKind = 'numeric' | 'warranty' | 'endorsement';
+export type ClaimField = 'verdict' | 'evidenceClaims' | 'pros' | 'faqs';
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // STEP 1: PRE-EXTRACT PRODUCTS FROM HTML (Regex + Pattern Matching)
-  // ═══════════════════════════════════════════════════════════════════════════
-  
-  const preExtracted = preExtractAmazonProducts(htmlContent);
-  console.log(`[SCAN] Pre-extracted ${preExtracted.length} products from HTML`);
+export interface ClaimIssue {
+  field: ClaimField;
+  itemIndex: number; // Index into evidenceClaims/pros/faqs; 0 for verdict
+  kind: ClaimIssueKind;
+  sentence: string;
+  match: string;
+}
 
-  // If we found ASINs, we can guarantee those products exist
-  const asinsFound = preExtracted.filter(p => p.asin).map(p => p.asin);
-  const namesFound = preExtracted.filter(p => p.name && !p.asin).map(p => p.name);
-  
-  console.log(`[SCAN] ASINs found: ${asinsFound.length}`, asinsFound.slice(0, 5));
-  console.log(`[SCAN] Names found: ${namesFound.length}`, namesFound.slice(0, 5));
+const CLAIM_PATTERNS: Record<ClaimIssueKind, RegExp> = {
+  warranty: /\b(?:\d+[- ]?(?:year|yr|month|day)s?['’]?\s+)?(?:[\w'’-]+\s+){0,3}(?:warrant(?:y|ies)|guarantee[ds]?)\b|\bmoney[- ]back\b|\bnext[- ]day replacement\b/i,
+  endorsement: /\b(?:trusted|used|chosen|loved|field[- ]tested|recommended|approved|endorsed)\s+(?:by|in|on)\b(?:[^.!?;,]|,(?=\d))*?(?=\s+and\b|,\s|[.!?;]|$)|\b[a-z]+-(?:recommended|approved|endorsed)\b|\bfortune 500\b|\baward[- ]winning\b|\bclinically proven\b|#1\b|\bnumber one\b|\bbest[- ]selling\b/i,
+  numeric: /\b(?:over|more than|nearly|almost|up to)?\s*(?:\d[\d,]*(?:\.\d+)?(?:\s*(?:%|\+|k\b|million\b|billion\b))?|(?:hundreds|thousands|millions)(?: of)?)(?:\s+(?!and\b)[a-z][\w-]*){0,2}/gi,
+};
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // STEP 2: AI ENHANCEMENT (Optional - improves results but not required)
-  // ═══════════════════════════════════════════════════════════════════════════
+// Resolution and standard markers ("4K", "1080p", "5G", "3D") describe the product rather than count anything
+const SPEC_TOKEN_REGEX = /^\d+(?:k|p|g|d)(?![a-z])/i;
+const COUNT_NOUN_REGEX = /\b(?:units|users|buyers|customers|reviews|ratings|people|owners|homes|sold|downloads|orders)\b/i;
 
-  const apiKey = process.env.API_KEY;
-  let aiProducts: any[] = [];
+const splitSentences = (text: string): string[] => (text.match(/(?:[^.!?]|\.(?=\d))+[.!?]*/g) || []).map(s => s.trim()).filter(Boolean);
 
-  if (apiKey) {
-    try {
-      const ai = new GoogleGenAI({ apiKey });
-      
-      // Clean content for AI
-      const context = (htmlContent || '')
-        .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-        .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-        .replace(/<[^>]*>/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim()
-        .substring(0, 20000);
+const normalizeNumber = (n: string) => n.replace(/,/g, '');
 
-      const systemPrompt = `TASK: You are a world-class product extraction engine. Your goal is to identify ONLY the actual products being reviewed, compared, or discussed as primary subjects in the provided blog post.
+/**
+ * Lowercased product facts a claim may be checked against: title, brand,
+ * description and specs, plus the listing's rating and review count.
+ */
+const buildClaimEvidence = (product: ProductDetails) => {
+  const text = [
+    product.title,
+    product.brand,
+    product.description,
+    ...Object.entries(product.specs || {}).map(([k, v]) => `${k} ${v}`),
+  ].filter(Boolean).join(' ').toLowerCase();
+
+  const numbers = new Set((text.match(/\d[\d,]*(?:\.\d+)?/g) || []).map(normalizeNumber));
+  if (product.rating) numbers.add(String(product.rating));
+  return { text, numbers, reviewCount: product.reviewCount || 0 };
+};
 
-STRICT RULES:
-1. ONLY extract physical products that can be purchased on Amazon.
-2. IGNORE generic mentions, accessories (unless they are the main topic), and non-product entities.
-3. IGNORE navigation links, site meta-text, and boilerplate.
-4. If the post is a "Best [Category]" list, extract each item in the list.
-5. If the post is a single product review, extract only that product.
-6. For each product, provide a high-confidence "productName" and "brand".
-7. Ensure the "verdict" is specific and high-quality.
+type ClaimEvidence = ReturnType<typeof buildClaimEvidence>;
 
-HINTS - Products already detected in this page:
-- ASINs found: ${asinsFound.join(', ') || 'none'}
-- Product names found: ${namesFound.slice(0, 10).join(', ') || 'none'}
+const isNumericClaimVerified = (match: string, evidence: ClaimEvidence): boolean => {
+  if (/\b(?:hundreds|thousands|millions)\b/i.test(match)) {
+    return /review|rating/i.test(match) && evidence.reviewCount >= 100;
+  }
+  const value = normalizeNumber((match.match(/\d[\d,]*(?:\.\d+)?/) || [''])[0]);
+  if (!value) return true;
+  if (evidence.numbers.has(value)) return true;
+  // "over 5,000 reviews" is backed by the listing's own review count
+  return /review|rating/i.test(match) && evidence.reviewCount >= parseFloat(value);
+};
 
-OUTPUT FORMAT:
-Return a JSON object with a "products" array. Each product must have:
-- productName: The full, precise name of the product.
-- brand: The manufacturer or brand name.
-- category: A specific category (e.g., "Noise Cancelling Headphones").
-- verdict: EXACTLY 3 sentences. 
-  Sentence 1: "[Power word] for [user type], the [Brand] [Product] [main benefit]"
-  Sentence 2: "[Key feature with specific detail], [performance claim]"
-  Sentence 3: "[Trust signal], backed by [warranty/reviews]"
-- confidence: A number from 0.0 to 1.0 indicating how certain you are this is a primary product of the post.
+const lintSentence = (sentence: string, evidence: ClaimEvidence): Array<Pick<ClaimIssue, 'kind' | 'match'>> => {
+  const found: Array<Pick<ClaimIssue, 'kind' | 'match'>> = [];
 
-Return JSON: {"products": [...]}`;
+  const warranty = sentence.match(CLAIM_PATTERNS.warranty);
+  if (warranty && !/warrant|guarantee/.test(evidence.text)) {
+    found.push({ kind: 'warranty', match: warranty[0].trim() });
+  }
 
-      const response = await ai.models.generateContent({
-        model: config.aiModel || 'gemini-2.0-flash',
-        contents: [{ role: 'user', parts: [{ text: `Title: "${title}"\n\nContent: ${context}` }] }],
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: 'application/json',
-        },
-      });
+  const endorsement = sentence.match(CLAIM_PATTERNS.endorsement);
+  if (endorsement && !evidence.text.includes(endorsement[0].toLowerCase().trim())) {
+    found.push({ kind: 'endorsement', match: endorsement[0].trim() });
+  }
 
-      const data = cleanAndParseJSON(response?.text || '');
-      // Filter by confidence
-      aiProducts = (data.products || []).filter((p: any) => (p.confidence || 0) >= 0.7);
-      console.log(`[SCAN] AI found ${aiProducts.length} high-confidence products`);
-      
-    } catch (e: any) {
-      console.warn('[SCAN] AI enhancement failed, using pre-extracted only:', e.message);
-    }
+  for (const m of sentence.matchAll(CLAIM_PATTERNS.numeric)) {
+    const match = m[0].trim();
+    if (!/\d|hundreds|thousands|millions/i.test(match)) continue;
+    const rest = sentence.slice(m.index).trimStart();
+    if (SPEC_TOKEN_REGEX.test(rest) && !COUNT_NOUN_REGEX.test(match)) continue;
+    if (found.some(f => f.match.includes(match) || match.includes(f.match))) continue;
+    if (!isNumericClaimVerified(match, evidence)) found.push({ kind: 'numeric', match });
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // STEP 3: MERGE & DEDUPLICATE PRODUCTS
-  // ═══════════════════════════════════════════════════════════════════════════
+  return found;
+};
 
-  const allProducts: Map<string, { asin: string; name: string; brand: string; category: string; verdict: string }> = new Map();
+/**
+ * Flags claims in verdict, evidenceClaims, pros (the box bullets when there
+ * are no evidence claims) and FAQ answers that the product data cannot back up.
+ */
+export const lintProductClaims = (product: ProductDetails): ClaimIssue[] => {
+  const evidence = buildClaimEvidence(product);
+  const issues: ClaimIssue[] = [];
 
-  // Helper to normalize names for better deduplication
-  const normalizeForMap = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 40);
+  const lintText = (field: ClaimField, itemIndex: number, text: string) => {
+    splitSentences(text || '').forEach(sentence => {
+      lintSentence(sentence, evidence).forEach(issue => issues.push({ field, itemIndex, sentence, ...issue }));
+    });
+  };
 
-  // Add pre-extracted products (highest priority - from actual Amazon links)
-  for (const p of preExtracted) {
-    const key = p.asin || normalizeForMap(p.name);
-    if (!allProducts.has(key)) {
-      allProducts.set(key, {
-        asin: p.asin,
-        name: p.name,
-        brand: '',
-        category: '',
-        verdict: '',
-      });
-    }
-  }
+  lintText('verdict', 0, product.verdict || '');
+  (product.evidenceClaims || []).forEach((claim, i) => lintText('evidenceClaims', i, claim));
+  (product.pros || []).forEach((pro, i) => lintText('pros', i, pro));
+  (product.faqs || []).forEach((faq, i) => lintText('faqs', i, faq.answer));
 
-  // Add AI products (merge data if exists, add new if not)
-  for (const p of aiProducts) {
-    if (!p.productName) continue;
-    
-    const key = normalizeForMap(p.productName);
-    const existing = allProducts.get(key);
-    
-    if (existing) {
-      // Merge AI data into existing
-      existing.name = existing.name || p.productName;
-      existing.brand = existing.brand || p.brand || '';
-      existing.category = existing.category || p.category || '';
-      existing.verdict = existing.verdict || p.verdict || '';
-    } else {
-      // Check if this matches any ASIN entry by name similarity (more robust)
-      let matched = false;
-      const pNameLower = p.productName.toLowerCase();
-      
-      for (const [_, v] of allProducts) {
-        if (v.asin && (!v.name || v.name.length < 10)) {
-          // If we have an ASIN but no good name, and AI found a name that might match
-          // (Simple heuristic: if brand is in the name or name is in the AI name)
-          if (pNameLower.includes(v.asin.toLowerCase()) || (v.name && pNameLower.includes(v.name.toLowerCase()))) {
-            v.name = p.productName;
-            v.brand = p.brand || '';
-            v.category = p.category || '';
-            v.verdict = p.verdict || '';
-            matched = true;
-            break;
-          }
-        }
-      }
-      
-      if (!matched) {
-        allProducts.set(key, {
-          asin: '',
-          name: p.productName,
-          brand: p.brand || '',
-          category: p.category || '',
-          verdict: p.verdict || '',
-        });
-      }
-    }
-  }
+  return issues;
+};
 
-  console.log(`[SCAN] Total merged products: ${allProducts.size}`);
+/**
+ * Issues the editor has not explicitly acknowledged. Acknowledgements are
+ * keyed by sentence, so edited copy has to be reviewed again.
+ */
+export const getUnacknowledgedClaims = (product: ProductDetails): ClaimIssue[] => {
+  const acknowledged = new Set(product.acknowledgedClaims || []);
+  return lintProductClaims(product).filter(issue => !acknowledged.has(issue.sentence));
+};
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // STEP 4: LOOKUP AMAZON DATA & BUILD FINAL PRODUCTS
-  // ═══════════════════════════════════════════════════════════════════════════
+export const acknowledgeProductClaims = (product: ProductDetails): ProductDetails => ({
+  ...product,
+  acknowledgedClaims: Array.from(new Set([
+    ...(product.acknowledgedClaims || []),
+    ...lintProductClaims(product).map(issue => issue.sentence),
+  ])),
+});
 
-  const processed: ProductDetails[] = [];
-  let idx = 0;
+// Words softenSentence introduces; any other word must come from the original
+const SOFTENING_WORDS = new Set(['many', 'most', 'popular', 'with', 'large']);
 
-  for (const [_, product] of allProducts) {
-    if (idx >= CONFIG.AI.MAX_PRODUCTS_PER_SCAN) break;
+const toWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}'’-]+/gu) || [];
 
-    try {
-      // Search Amazon for product data
-      const searchQuery = product.asin || product.name;
-      if (!searchQuery) continue;
+/**
+ * True when every word of the softened sentence is an original word or a
+ * softening word, i.e. no replacement was glued onto its neighbour.
+ */
+const keepsWordBoundaries = (original: string, softened: string): boolean => {
+  const words = new Set(toWords(original));
+  return toWords(softened).every(word => words.has(word) || SOFTENING_WORDS.has(word));
+};
 
-      const amz = await searchAmazonProduct(searchQuery, config.serpApiKey || '');
-      
-      // Skip if we couldn't find any data
-      if (!amz.title && !product.name) continue;
+const softenSentence = (sentence: string): string => {
+  return sentence
+    .replace(/(?:,\s*|\s+and\s+|^)\s*backed by\b[^.!?]*/i, '')
+    .replace(/\b(?:trusted|used|chosen|loved)\s+by\s+(?:hundreds|thousands|millions)\b(?!\s+of)/gi, 'popular')
+    .replace(/\b(?:trusted|used|chosen|loved|field[- ]tested)\s+(by|in|on)\b/gi, (_, prep: string) => `Popular ${prep.toLowerCase() === 'by' ? 'with' : prep}`)
+    .replace(/\b[a-z]+-(?:recommended|approved|endorsed)\s*(?:and\s*)?/gi, '')
+    .replace(/\bfortune 500\b/gi, 'large')
+    .replace(/\b(?:award[- ]winning|clinically proven|best[- ]selling|number one)\s*/gi, '')
+    .replace(/#1\s*/g, '')
+    .replace(/\b(?:(?:over|more than|nearly|almost)\s+)?\d[\d,]*\+?(?=\s+[a-z])/gi, 'many')
+    .replace(/\b(?:hundreds|thousands|millions) of\s+/gi, 'many ')
+    .replace(/\b(?:(?:over|more than|nearly|almost)\s+)?\d+(?:\.\d+)?%\s+of\s+/gi, 'most ')
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([.!?,])/g, '$1')
+    .trim()
+    .replace(/^[a-z]/, c => c.toUpperCase());
+};
 
-      const finalName = amz.title || product.name;
-      const finalBrand = amz.brand || product.brand || '';
-      const finalCategory = product.category || 'Product';
+/**
+ * Rewrites or removes every flagged sentence. "soften" hedges the wording and
+ * only drops sentences that still fail the linter; "strip" drops them outright.
+ * Evidence claims, pros and FAQs left empty are removed.
+ */
+const fixClaimText = (text: string, evidence: ClaimEvidence, mode: 'soften' | 'strip'): string => splitSentences(text || '')
+  .map(sentence => {
+    if (lintSentence(sentence, evidence).length === 0) return sentence;
+    if (mode === 'strip') return '';
+    const softened = softenSentence(sentence);
+    return /\w{3,}\s.*\w{3,}/.test(softened)
+      && keepsWordBoundaries(sentence, softened)
+      && lintSentence(softened, evidence).length === 0 ? softened : '';
+  })
+  .filter(Boolean)
+  .join(' ');
+
+export const fixProductClaims = (product: ProductDetails, mode: 'soften' | 'strip'): ProductDetails => {
+  const evidence = buildClaimEvidence(product);
+  const fixText = (text: string): string => fixClaimText(text, evidence, mode);
+
+  const verdict = fixText(product.verdict || '');
 
-      // Generate dynamic product-specific description
-      const dynamicVerdict = generateDynamicVerdict(
-        finalName,
-        finalBrand,
-        finalCategory,
-        product.verdict
-      );
+  return {
+    ...product,
+    verdict: verdict || getBoxLocale(product.language).defaultVerdict,
+    evidenceClaims: (product.evidenceClaims || []).map(fixText).filter(Boolean),
+    pros: (product.pros || []).map(fixText).filter(Boolean),
+    faqs: (product.faqs || [])
+      .map(faq => ({ ...faq, answer: fixText(faq.answer) }))
+      .filter(faq => faq.answer),
+  };
+};
 
-      processed.push({
-        id: crypto.randomUUID?.() || `${Date.now()}-${idx}-${Math.random().toString(36).substr(2, 5)}`,
-        asin: amz.asin || product.asin || '',
-        title: finalName.substring(0, 80),
-        brand: finalBrand,
-        category: finalCategory,
-        price: amz.price || 'Check Price',
-        imageUrl: amz.imageUrl || 'https://via.placeholder.com/800x800.png?text=Product',
-        rating: amz.rating || 4.5,
-        reviewCount: amz.reviewCount || 1000,
-        prime: amz.prime ?? true,
-        verdict: dynamicVerdict,
-        evidenceClaims: [],
-        faqs: [],
-        entities: [],
-        specs: {},
-        insertionIndex: -1,
-        deploymentMode: 'ELITE_BENTO' as DeploymentMode,
-      });
+// ============================================================================
+// PRODUCT ENRICHMENT - Second AI Pass (Pros, Cons, FAQs, Evidence)
+// ============================================================================
 
-      idx++;
-      console.log(`[SCAN] Added product ${idx}: ${finalName}`);
-      
-    } catch (e) {
-      console.warn('[SCAN] Error processing product:', e);
+/**
+ * Strips scripts, styles and tags to produce whitespace-normalized text for prompts.
+ */
+const htmlToPlainText = (html: string): string => {
+  return (html || '')
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Collects the passages of the post that mention a product, so the enrichment
+ * prompt sees what the author actually wrote about it. Falls back to the intro.
+ */
+const extractProductContext = (plainText: string, productName: string, brand: string): string => {
+  const maxChars = CONFIG.AI.ENRICHMENT_CONTEXT_CHARS;
+  const lower = plainText.toLowerCase();
+  const needles = [productName, productName.split(' ').slice(0, 3).join(' '), brand]
+    .map(n => n.toLowerCase().trim())
+    .filter(n => n.length > 3);
+
+  const windows: Array<[number, number]> = [];
+  for (const needle of needles) {
+    let pos = lower.indexOf(needle);
+    while (pos !== -1 && windows.length < 8) {
+      windows.push([Math.max(0, pos - 400), Math.min(plainText.length, pos + needle.length + 600)]);
+      pos = lower.indexOf(needle, pos + needle.length + 600);
     }
+    if (windows.length > 0) break;
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // STEP 5: CACHE & RETURN
-  // ═══════════════════════════════════════════════════════════════════════════
+  if (windows.length === 0) return plainText.substring(0, maxChars);
 
-  console.log(`[SCAN] COMPLETE - Found ${processed.length} products`);
+  const merged = windows
+    .sort((a, b) => a[0] - b[0])
+    .reduce<Array<[number, number]>>((acc, w) => {
+      const last = acc[acc.length - 1];
+      if (last && w[0] <= last[1]) last[1] = Math.max(last[1], w[1]);
+      else acc.push([...w]);
+      return acc;
+    }, []);
 
-  let carousel: CarouselData | undefined = undefined;
-  if (processed.length >= 4) {
-    carousel = {
-      title: `Top Rated ${processed[0].category || 'Products'}`,
-      productIds: processed.slice(0, 8).map(p => p.id)
-    };
-  }
+  return merged.map(([a, b]) => plainText.substring(a, b)).join(' … ').substring(0, maxChars);
+};
 
-  if (processed.length > 0) {
-    const contentHash = generateContentHash(title, htmlContent.length);
-    IntelligenceCache.setAnalysis(contentHash, { products: processed, comparison: undefined, carousel });
-  }
+const toCleanStringList = (value: unknown, max: number): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .map(v => v.trim())
+    .filter(v => v.length > 0)
+    .slice(0, max);
+};
+
+type ProductEnrichment = Pick<ProductDetails, 'pros' | 'cons' | 'faqs' | 'evidenceClaims' | 'entities'>;
+
+/**
+ * Runs a product-specific AI pass that fills pros, cons, FAQs, evidence claims
+ * and entities from the post context and the looked-up product data.
+ */
+const enrichProductWithAI = async (
+  product: ProductDetails,
+  plainText: string,
+  config: AppConfig,
+  apiKey: string,
+  language: ContentLanguage = 'en',
+  signal?: AbortSignal
+): Promise<ProductEnrichment> => {
+  const systemPrompt = `TASK: You write product-specific buying guidance for an affiliate product box.
+
+RULES:
+1. Base every statement on the POST CONTEXT or PRODUCT DATA provided. Do not invent warranties, sales figures, awards or certifications.
+2. Be specific to this exact product. Generic statements that fit any product are forbidden.
+3. Keep each bullet under 12 words and each FAQ answer under 40 words.
+
+OUTPUT FORMAT:
+Return a JSON object with:
+- pros: 3-5 concrete strengths.
+- cons: 1-3 honest drawbacks.
+- evidenceClaims: exactly 4 short, verifiable feature highlights for the feature grid.
+- faqs: exactly 4 objects {"question", "answer"} a buyer of this product would ask.
+- entities: up to 8 key entities (features, technologies, use cases, competitor models) related to the product.${languageInstruction(language)}`;
+
+  const userPrompt = `PRODUCT DATA:
+- Title: ${product.title}
+- Brand: ${product.brand || 'unknown'}
+- Category: ${product.category || 'unknown'}
+- Price: ${product.price}
+- Rating: ${product.rating ? `${product.rating} (${product.reviewCount || 'unknown'} reviews)` : 'unknown'}${product.features?.length ? `\n- Official features: ${product.features.join(' | ')}` : ''}
+
+POST CONTEXT:
+${extractProductContext(plainText, product.title, product.brand)}`;
+
+  const responseText = await generateAIContent(config, apiKey, { systemPrompt, userPrompt, jsonMode: true, purpose: 'enrichment', signal });
+  const data: any = cleanAndParseJSON(responseText);
+
+  const faqs = Array.isArray(data.faqs)
+    ? data.faqs
+        .filter((f: any) => f && typeof f.question === 'string' && typeof f.answer === 'string')
+        .map((f: any) => ({ question: f.question.trim(), answer: f.answer.trim() }))
+        .filter((f: FAQItem) => f.question && f.answer)
+        .slice(0, 4)
+    : [];
 
   return {
-    detectedProducts: processed,
-    product: processed[0] || null,
-    comparison: undefined,
-    carousel,
+    pros: toCleanStringList(data.pros, 5),
+    cons: toCleanStringList(data.cons, 3),
+    evidenceClaims: toCleanStringList(data.evidenceClaims, 4),
+    faqs,
+    entities: toCleanStringList(data.entities, 8),
   };
 };
 
-
 // ============================================================================
-// CONTENT MANIPULATION
+// COMPARISON MATRIX ENGINE - Top Picks & Shared Spec Extraction
 // ============================================================================
 
-export const splitContentIntoBlocks = (html: string): string[] => {
+/**
+ * Deterministic matrix used when the AI pass fails: the first products in
+ * post order compared on data we already hold.
+ */
+const buildFallbackComparison = (products: ProductDetails[], language: ContentLanguage = 'en'): ComparisonData => {
+  const t = getBoxLocale(language);
+  const picks = products.slice(0, CONFIG.AI.COMPARISON_PICKS);
+  picks.forEach(p => {
+    p.specs = {
+      ...p.specs,
+      [t.specBrand]: p.brand || '-',
+      [t.specRating]: p.rating ? `${p.rating} / 5` : '-',
+      [t.specReviews]: p.reviewCount ? p.reviewCount.toLocaleString() : '-',
+    };
+  });
+
+  return {
+    title: t.comparedTitle(picks[0]?.category || ''),
+    productIds: picks.map(p => p.id),
+    specs: [t.specBrand, t.specRating, t.specReviews],
+    language,
+  };
+};
+
+/**
+ * Picks the top products of a listicle, chooses spec keys they all share and
+ * fills `specs` on every product. Mutates the passed products' `specs`.
+ */
+const buildComparisonWithAI = async (
+  title: string,
+  products: ProductDetails[],
+  plainText: string,
+  config: AppConfig,
+  apiKey: string,
+  language: ContentLanguage = 'en',
+  signal?: AbortSignal
+): Promise<ComparisonData> => {
+  const systemPrompt = `TASK: You build a side-by-side comparison table for a "best of" article.
+
+RULES:
+1. Choose the ${CONFIG.AI.COMPARISON_PICKS} strongest products for the comparison, best first, using the post's own ranking when it has one.
+2. Choose ${CONFIG.AI.MIN_SPEC_KEYS}-${CONFIG.AI.MAX_SPEC_KEYS} spec keys that apply to ALL chosen products and matter to buyers in this category (e.g. "Weight", "Battery Life", "Capacity"). Do not use Price or Rating.
+3. Fill each spec value for EVERY listed product with a short value (max 5 words) including units. Use the post context first, then well-known manufacturer specifications. Use "-" when unknown; never guess.
+
+OUTPUT FORMAT:
+Return a JSON object:
+{"title": "Short table heading", "picks": [product indexes], "specKeys": ["..."], "products": [{"index": 0, "specs": {"Spec Key": "value"}}]}${languageInstruction(language)}`;
+
+  const productList = products
+    .map((p, i) => `${i}. ${p.title} | Brand: ${p.brand || 'unknown'} | Category: ${p.category} | Price: ${p.price}`)
+    .join('\n');
+
+  const responseText = await generateAIContent(config, apiKey, {
+    systemPrompt,
+    userPrompt: `ARTICLE TITLE: "${title}"\n\nPRODUCTS:\n${productList}\n\nPOST CONTEXT:\n${plainText.substring(0, CONFIG.AI.MAX_CONTEXT_CHARS)}`,
+    jsonMode: true,
+    purpose: 'comparison',
+    signal,
+  });
+  const data: any = cleanAndParseJSON(responseText);
+
+  const specKeys = toCleanStringList(data.specKeys, CONFIG.AI.MAX_SPEC_KEYS)
+    .filter(k => !/^(price|rating)$/i.test(k));
+  const picks: number[] = (Array.isArray(data.picks) ? data.picks : [])
+    .map((i: unknown) => Number(i))
+    .filter((i: number, pos: number, arr: number[]) =>
+      Number.isInteger(i) && i >= 0 && i < products.length && arr.indexOf(i) === pos
+    )
+    .slice(0, CONFIG.AI.COMPARISON_PICKS);
+
+  if (specKeys.length < CONFIG.AI.MIN_SPEC_KEYS || picks.length < CONFIG.AI.COMPARISON_PICKS) {
+    throw new AIProcessingError('Comparison response missing picks or spec keys');
+  }
+
+  for (const entry of Array.isArray(data.products) ? data.products : []) {
+    const product = products[Number(entry?.index)];
+    if (!product || !entry.specs || typeof entry.specs !== 'object') continue;
+
+    const specs: Record<string, string> = { ...product.specs };
+    for (const key of specKeys) {
+      const value = entry.specs[key];
+      if (typeof value === 'string' || typeof value === 'number') {
+        specs[key] = String(value).trim() || '-';
+      }
+    }
+    product.specs = specs;
+  }
+
+  return {
+    title: (typeof data.title === 'string' && data.title.trim()) || getBoxLocale(language).comparedTitle(products[picks[0]].category),
+    productIds: picks.map(i => products[i].id),
+    specs: specKeys,
+    language,
+  };
+};
+
+// ============================================================================
+// AI USAGE LEDGER - Token & Cost Accounting With Session Budgets
+// ============================================================================
+
+export interface AIUsageEntry {
+  timestamp: number;
+  sessionId: string;
+  provider: AIProvider;
+  model: string;
+  purpose: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  estimated: boolean; // Token counts approximated because the provider omitted usage
+}
+
+export interface AIUsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+const USAGE_KEYS = {
+  LEDGER: 'amzwp_ai_usage_v1',
+  SESSION: 'amzwp_ai_session_v1',
+} as const;
+
+const MAX_LEDGER_ENTRIES = 2000;
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that omit usage.
+ */
+const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+const findModelPricing = (provider: AIProvider, model: string): AIModelOption | undefined => {
+  return AI_PROVIDERS[provider]?.models.find(m => m.id === model);
+};
+
+export const estimateAICost = (provider: AIProvider, model: string, inputTokens: number, outputTokens: number): number => {
+  const pricing = findModelPricing(provider, model);
+  if (!pricing) return 0;
+  return (inputTokens * (pricing.inputPer1M || 0) + outputTokens * (pricing.outputPer1M || 0)) / 1_000_000;
+};
+
+const summarizeUsage = (entries: AIUsageEntry[]): AIUsageSummary => entries.reduce(
+  (acc, e) => ({
+    calls: acc.calls + 1,
+    inputTokens: acc.inputTokens + e.inputTokens,
+    outputTokens: acc.outputTokens + e.outputTokens,
+    costUsd: acc.costUsd + e.costUsd,
+  }),
+  { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+);
+
+export const AIUsageLedger = {
+  /**
+   * A session lasts for the browser tab's lifetime, or until reset from the usage panel.
+   */
+  getSessionId: (): string => {
+    let id = sessionStorage.getItem(USAGE_KEYS.SESSION);
+    if (!id) {
+      id = `s-${Date.now().toString(36)}`;
+      sessionStorage.setItem(USAGE_KEYS.SESSION, id);
+    }
+    return id;
+  },
+
+  startNewSession: (): string => {
+    const id = `s-${Date.now().toString(36)}`;
+    sessionStorage.setItem(USAGE_KEYS.SESSION, id);
+    return id;
+  },
+
+  getEntries: (): AIUsageEntry[] => {
+    try {
+      const raw = localStorage.getItem(USAGE_KEYS.LEDGER);
+      return raw ? JSON.parse(raw) : [];
+    } catch {
+      return [];
+    }
+  },
+
+  record: (entry: Omit<AIUsageEntry, 'timestamp' | 'sessionId' | 'costUsd'>): AIUsageEntry => {
+    const full: AIUsageEntry = {
+      ...entry,
+      timestamp: Date.now(),
+      sessionId: AIUsageLedger.getSessionId(),
+      costUsd: estimateAICost(entry.provider, entry.model, entry.inputTokens, entry.outputTokens),
+    };
+    try {
+      const entries = [...AIUsageLedger.getEntries(), full].slice(-MAX_LEDGER_ENTRIES);
+      localStorage.setItem(USAGE_KEYS.LEDGER, JSON.stringify(entries));
+    } catch (e) {
+      console.warn('[AIUsageLedger] Failed to persist usage entry:', e);
+    }
+    return full;
+  },
+
+  sessionSummary: (): AIUsageSummary => {
+    const sessionId = AIUsageLedger.getSessionId();
+    return summarizeUsage(AIUsageLedger.getEntries().filter(e => e.sessionId === sessionId));
+  },
+
+  totalSummary: (): AIUsageSummary => summarizeUsage(AIUsageLedger.getEntries()),
+
+  byModel: (): Record<string, AIUsageSummary> => {
+    const groups: Record<string, AIUsageEntry[]> = {};
+    AIUsageLedger.getEntries().forEach(e => {
+      const key = `${e.provider}/${e.model}`;
+      (groups[key] = groups[key] || []).push(e);
+    });
+    return Object.fromEntries(Object.entries(groups).map(([k, v]) => [k, summarizeUsage(v)]));
+  },
+
+  clear: (): void => {
+    localStorage.removeItem(USAGE_KEYS.LEDGER);
+  },
+};
+
+/**
+ * Throws once the current session has spent the configured budget. Batch runs
+ * call this between items so they pause instead of failing mid-post.
+ */
+export const assertAIBudget = (config: Pick<AppConfig, 'aiSessionBudgetUsd'>): void => {
+  const budget = config.aiSessionBudgetUsd || 0;
+  if (budget <= 0) return;
+
+  const spent = AIUsageLedger.sessionSummary().costUsd;
+  if (spent >= budget) {
+    throw new AIBudgetExceededError(
+      `AI session budget reached ($${spent.toFixed(4)} of $${budget.toFixed(2)}). Raise it or start a new session in Settings → Usage.`,
+      spent,
+      budget
+    );
+  }
+};
+
+// ============================================================================
+// PROMPT LIBRARY - Editable, Versioned Templates
+// ============================================================================
+
+/**
+ * Variables available to templates. Unknown placeholders are left untouched so
+ * literal JSON examples in a prompt survive rendering.
+ */
+export const PROMPT_VARIABLES: Record<PromptPurpose, string[]> = {
+  extraction: ['title', 'asinsFound', 'namesFound', 'partNote', 'verdictInstructions'],
+  verdict: [],
+};
+
+const MAX_PROMPT_VERSIONS = 20;
+
+const DEFAULT_EXTRACTION_PROMPT = `TASK: You are a world-class product extraction engine. Your goal is to identify ONLY the actual products being reviewed, compared, or discussed as primary subjects in the provided blog post.
+{partNote}
+STRICT RULES:
+1. ONLY extract physical products that can be purchased on Amazon.
+2. IGNORE generic mentions, accessories (unless they are the main topic), and non-product entities.
+3. IGNORE navigation links, site meta-text, and boilerplate.
+4. If the post is a "Best [Category]" list, extract each item in the list.
+5. If the post is a single product review, extract only that product.
+6. For each product, provide a high-confidence "productName" and "brand".
+7. Ensure the "verdict" is specific and high-quality.
+
+HINTS - Products already detected in this page:
+- ASINs found: {asinsFound}
+- Product names found: {namesFound}
+
+The content is split into numbered blocks, each line starting with a [#N] marker.
+
+OUTPUT FORMAT:
+Return a JSON object with a "products" array. Each product must have:
+- productName: The full, precise name of the product.
+- brand: The manufacturer or brand name.
+- category: A specific category (e.g., "Noise Cancelling Headphones").
+- verdict: {verdictInstructions}
+- confidence: A number from 0.0 to 1.0 indicating how certain you are this is a primary product of the post.
+- blockIndex: The N of the [#N] block where the product is primarily discussed.
+
+Return JSON: {"products": [...]}`;
+
+const DEFAULT_VERDICT_PROMPT = `EXACTLY 3 sentences. 
+  Sentence 1: "[Power word] for [user type], the [Brand] [Product] [main benefit]"
+  Sentence 2: "[Key feature with specific detail], [performance claim]"
+  Sentence 3: "[Trust signal], backed by [warranty/reviews]"`;
+
+export const DEFAULT_PROMPT_LIBRARY: PromptLibrary = {
+  templates: [
+    {
+      id: 'builtin-extraction',
+      name: 'Default Extraction',
+      purpose: 'extraction',
+      builtIn: true,
+      versions: [{ version: 1, body: DEFAULT_EXTRACTION_PROMPT, createdAt: 0 }],
+    },
+    {
+      id: 'builtin-verdict',
+      name: 'Default Verdict Formula',
+      purpose: 'verdict',
+      builtIn: true,
+      versions: [{ version: 1, body: DEFAULT_VERDICT_PROMPT, createdAt: 0 }],
+    },
+  ],
+  siteDefaults: {},
+};
+
+export const renderPromptTemplate = (body: string, vars: Record<string, string>): string => {
+  return body.replace(/\{(\w+)\}/g, (match, key: string) => (key in vars ? vars[key] : match));
+};
+
+/**
+ * Site key used for per-site prompt defaults: the WordPress hostname.
+ */
+export const getPromptSiteKey = (config: Pick<AppConfig, 'wpUrl'>): string => {
+  try {
+    return new URL(normalizeUrl(config.wpUrl || '')).hostname.toLowerCase() || 'default';
+  } catch {
+    return 'default';
+  }
+};
+
+export const getPromptLibrary = (config: Pick<AppConfig, 'promptLibrary'>): PromptLibrary => {
+  return config.promptLibrary?.templates?.length ? config.promptLibrary : DEFAULT_PROMPT_LIBRARY;
+};
+
+/**
+ * Resolves the template for a purpose: this site's default, else the built-in.
+ */
+export const resolvePromptTemplate = (config: AppConfig, purpose: PromptPurpose): PromptTemplate => {
+  const library = getPromptLibrary(config);
+  const defaultId = library.siteDefaults[getPromptSiteKey(config)]?.[purpose];
+  return (
+    library.templates.find(t => t.id === defaultId && t.purpose === purpose) ||
+    library.templates.find(t => t.builtIn && t.purpose === purpose) ||
+    DEFAULT_PROMPT_LIBRARY.templates.find(t => t.purpose === purpose)!
+  );
+};
+
+const latestPromptBody = (template: PromptTemplate): string => {
+  return template.versions[template.versions.length - 1]?.body || '';
+};
+
+const resolvePromptBody = (config: AppConfig, purpose: PromptPurpose): string => {
+  return latestPromptBody(resolvePromptTemplate(config, purpose));
+};
+
+/**
+ * Appends a new version when the body changed. Older versions beyond
+ * MAX_PROMPT_VERSIONS are dropped.
+ */
+export const savePromptVersion = (library: PromptLibrary, templateId: string, body: string): PromptLibrary => {
+  return {
+    ...library,
+    templates: library.templates.map(t => {
+      if (t.id !== templateId || latestPromptBody(t) === body) return t;
+      const version = (t.versions[t.versions.length - 1]?.version || 0) + 1;
+      return {
+        ...t,
+        versions: [...t.versions, { version, body, createdAt: Date.now() }].slice(-MAX_PROMPT_VERSIONS),
+      };
+    }),
+  };
+};
+
+export const createPromptTemplate = (
+  library: PromptLibrary,
+  name: string,
+  purpose: PromptPurpose,
+  body: string
+): { library: PromptLibrary; template: PromptTemplate } => {
+  const template: PromptTemplate = {
+    id: `prompt-${Date.now().toString(36)}`,
+    name: name.trim() || 'Untitled Prompt',
+    purpose,
+    versions: [{ version: 1, body, createdAt: Date.now() }],
+  };
+  return { library: { ...library, templates: [...library.templates, template] }, template };
+};
+
+export const deletePromptTemplate = (library: PromptLibrary, templateId: string): PromptLibrary => {
+  const siteDefaults = Object.fromEntries(
+    Object.entries(library.siteDefaults).map(([site, defaults]) => [
+      site,
+      Object.fromEntries(Object.entries(defaults).filter(([, id]) => id !== templateId)),
+    ])
+  );
+  return {
+    templates: library.templates.filter(t => t.id !== templateId || t.builtIn),
+    siteDefaults,
+  };
+};
+
+export const setSitePromptDefault = (
+  library: PromptLibrary,
+  siteKey: string,
+  purpose: PromptPurpose,
+  templateId: string
+): PromptLibrary => ({
+  ...library,
+  siteDefaults: {
+    ...library.siteDefaults,
+    [siteKey]: { ...library.siteDefaults[siteKey], [purpose]: templateId },
+  },
+});
+
+// ============================================================================
+// AI RESPONSE SCHEMA - Field-Level Validation & Repair Retry
+// ============================================================================
+
+export interface AIExtractedProduct {
+  productName: string;
+  brand: string;
+  category: string;
+  verdict: string;
+  confidence: number;
+  blockIndex?: number;
+}
+
+export interface AIExtractionResponse {
+  products: AIExtractedProduct[];
+}
+
+type SchemaResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+export const validateExtractionResponse = (raw: unknown): SchemaResult<AIExtractionResponse> => {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['root: expected a JSON object'] };
+  }
+
+  const products = (raw as Record<string, unknown>).products;
+  if (!Array.isArray(products)) {
+    return { ok: false, errors: ['products: expected an array'] };
+  }
+
+  const value: AIExtractedProduct[] = [];
+  products.forEach((item: unknown, i: number) => {
+    const at = `products[${i}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push(`${at}: expected an object`);
+      return;
+    }
+    const p = item as Record<string, unknown>;
+
+    if (!isNonEmptyString(p.productName)) errors.push(`${at}.productName: must be a non-empty string`);
+    else if (p.productName.length > 200) errors.push(`${at}.productName: must be at most 200 characters`);
+    if (typeof p.brand !== 'string') errors.push(`${at}.brand: must be a string`);
+    if (typeof p.category !== 'string') errors.push(`${at}.category: must be a string`);
+    if (typeof p.verdict !== 'string') errors.push(`${at}.verdict: must be a string`);
+    if (typeof p.confidence !== 'number' || !Number.isFinite(p.confidence) || p.confidence < 0 || p.confidence > 1) {
+      errors.push(`${at}.confidence: must be a number between 0 and 1`);
+    }
+    const blockIndex = typeof p.blockIndex === 'number' && Number.isInteger(p.blockIndex) ? p.blockIndex : undefined;
+    if (p.blockIndex !== undefined && p.blockIndex !== null && (blockIndex === undefined || blockIndex < 0)) {
+      errors.push(`${at}.blockIndex: must be a non-negative integer`);
+    }
+
+    value.push({
+      productName: String(p.productName || '').trim(),
+      brand: String(p.brand || '').trim(),
+      category: String(p.category || '').trim(),
+      verdict: String(p.verdict || '').trim(),
+      confidence: Number(p.confidence),
+      blockIndex,
+    });
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { products: value } };
+};
+
+const buildRepairPrompt = (originalPrompt: string, invalidResponse: string, errors: string[]): string => {
+  return `${originalPrompt}
+
+Your previous response failed validation:
+${errors.slice(0, 20).map(e => `- ${e}`).join('\n')}
+
+Previous response:
+${invalidResponse.substring(0, 4000)}
+
+Return the corrected JSON only.`;
+};
+
+/**
+ * Runs a JSON-mode prompt and validates the result against a schema. Invalid
+ * output is re-prompted with the validation errors up to CONFIG.AI.MAX_RETRIES
+ * times before an AIResponseValidationError is thrown.
+ */
+const generateValidatedAIContent = async <T>(
+  config: AppConfig,
+  apiKey: string,
+  request: Omit<AIGenerateRequest, 'model' | 'jsonMode'>,
+  validate: (raw: unknown) => SchemaResult<T>
+): Promise<T> => {
+  let userPrompt = request.userPrompt;
+  let lastErrors: string[] = [];
+
+  for (let attempt = 0; attempt <= CONFIG.AI.MAX_RETRIES; attempt++) {
+    const responseText = await generateAIContent(config, apiKey, { ...request, userPrompt, jsonMode: true });
+    const parsed = tryParseAIJson(responseText);
+    const result: SchemaResult<T> = parsed === null
+      ? { ok: false, errors: ['root: response is not valid JSON'] }
+      : validate(parsed);
+
+    if (result.ok) return result.value;
+
+    lastErrors = result.errors;
+    console.warn(`[AI] Invalid response (attempt ${attempt + 1}):`, lastErrors.slice(0, 5));
+    userPrompt = buildRepairPrompt(request.userPrompt, responseText, lastErrors);
+  }
+
+  throw new AIResponseValidationError(
+    `AI returned invalid data: ${lastErrors.slice(0, 3).join('; ')}`,
+    lastErrors,
+    resolveAIModel(config)
+  );
+};
+
+// ============================================================================
+// LONG-FORM CHUNKING - Map-Reduce Extraction Over Content Blocks
+// ============================================================================
+
+interface ContentChunk {
+  index: number;
+  startBlock: number;
+  endBlock: number; // inclusive
+  html: string;
+  text: string; // Plain text, one "[#N] ..." line per block
+}
+
+interface ChunkProduct {
+  productName: string;
+  brand: string;
+  category: string;
+  verdict: string;
+  blockIndex: number;
+}
+
+/**
+ * Normalizes product names so the same product found in different chunks
+ * (or by regex and AI) collapses to one entry.
+ */
+const normalizeForMap = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 40);
+
+/**
+ * Returns the first block that mentions any of the needles, or -1.
+ */
+const locateBlockIndex = (blocks: string[], needles: string[], from = 0, to = blocks.length - 1): number => {
+  const terms = needles.map(n => (n || '').toLowerCase().trim()).filter(n => n.length > 3);
+  if (terms.length === 0) return -1;
+
+  for (let i = Math.max(0, from); i <= Math.min(to, blocks.length - 1); i++) {
+    const lower = blocks[i].toLowerCase();
+    if (terms.some(t => lower.includes(t))) return i;
+  }
+  return -1;
+};
+
+/**
+ * Packs consecutive blocks into chunks that fit the model context budget.
+ * Blocks are never split; a single oversized block is truncated on its own.
+ */
+const chunkBlocksForAI = (blocks: string[], maxChars: number = CONFIG.AI.MAX_CONTEXT_CHARS): ContentChunk[] => {
+  const chunks: ContentChunk[] = [];
+  let current: ContentChunk | null = null;
+
+  blocks.forEach((block, i) => {
+    const text = htmlToPlainText(block);
+    if (!text) return;
+
+    const line = `[#${i}] ${text}`.substring(0, maxChars);
+    if (current && current.text.length + line.length + 1 > maxChars) {
+      chunks.push(current);
+      current = null;
+    }
+
+    if (!current) {
+      current = { index: chunks.length, startBlock: i, endBlock: i, html: block, text: line };
+    } else {
+      current.endBlock = i;
+      current.html += block;
+      current.text += `\n${line}`;
+    }
+  });
+
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Renders the extraction prompt for one chunk. Hints are limited to products
+ * that were pre-extracted from this chunk's HTML.
+ */
+const buildExtractionPrompts = (
+  title: string,
+  chunk: ContentChunk,
+  chunkCount: number,
+  preExtracted: ExtractedProduct[],
+  config: AppConfig,
+  templateBody?: string,
+  language: ContentLanguage = 'en'
+): { systemPrompt: string; userPrompt: string } => {
+  const chunkHtmlLower = chunk.html.toLowerCase();
+  const asinsFound = preExtracted.filter(p => p.asin && chunk.html.includes(p.asin)).map(p => p.asin);
+  const namesFound = preExtracted
+    .filter(p => p.name && !p.asin && chunkHtmlLower.includes(p.name.toLowerCase()))
+    .map(p => p.name);
+
+  const partNote = chunkCount > 1
+    ? `\nThis is part ${chunk.index + 1} of ${chunkCount} of a long post. Extract only products discussed in THIS part.\n`
+    : '';
+
+  const systemPrompt = renderPromptTemplate(templateBody ?? resolvePromptBody(config, 'extraction'), {
+    title,
+    asinsFound: asinsFound.join(', ') || 'none',
+    namesFound: namesFound.slice(0, 10).join(', ') || 'none',
+    partNote,
+    verdictInstructions: resolvePromptBody(config, 'verdict'),
+  }) + languageInstruction(language);
+
+  return { systemPrompt, userPrompt: `Title: "${title}"\n\nContent:\n${chunk.text}` };
+};
+
+/**
+ * Runs the extraction prompt on one chunk. Hints are limited to products that
+ * were pre-extracted from this chunk's HTML.
+ */
+const extractProductsFromChunk = async (
+  title: string,
+  chunk: ContentChunk,
+  chunkCount: number,
+  blocks: string[],
+  preExtracted: ExtractedProduct[],
+  config: AppConfig,
+  apiKey: string,
+  language: ContentLanguage = 'en',
+  signal?: AbortSignal
+): Promise<ChunkProduct[]> => {
+  const { systemPrompt, userPrompt } = buildExtractionPrompts(title, chunk, chunkCount, preExtracted, config, undefined, language);
+
+  const data = await generateValidatedAIContent(config, apiKey, { systemPrompt, userPrompt, purpose: 'extraction', signal }, validateExtractionResponse);
+  return pinChunkProducts(data, chunk, blocks);
+};
+
+/**
+ * Filters an extraction response by confidence and pins each product to a
+ * block inside its chunk.
+ */
+const pinChunkProducts = (data: AIExtractionResponse, chunk: ContentChunk, blocks: string[]): ChunkProduct[] => {
+  return data.products
+    .filter(p => p.confidence >= 0.7)
+    .map((p): ChunkProduct => {
+      const claimed = p.blockIndex;
+      const inRange = claimed !== undefined && claimed >= chunk.startBlock && claimed <= chunk.endBlock;
+      const located = locateBlockIndex(
+        blocks,
+        [p.productName, p.productName.split(' ').slice(0, 3).join(' ')],
+        chunk.startBlock,
+        chunk.endBlock
+      );
+
+      return {
+        productName: p.productName,
+        brand: p.brand,
+        category: p.category,
+        verdict: p.verdict,
+        blockIndex: inRange ? claimed : located !== -1 ? located : chunk.startBlock,
+      };
+    });
+};
+
+interface MergedProduct {
+  asin: string;
+  name: string;
+  brand: string;
+  category: string;
+  verdict: string;
+  blockIndex: number;
+  shortLinks?: string[];
+}
+
+/**
+ * True when every token of the shorter name appears in the longer one
+ * ("Anker Soundcore Space Q45" / "Soundcore by Anker Space Q45").
+ */
+const isSameProductName = (a: string, b: string): boolean => {
+  const [shorter, longer] = [tokenizeForMatch(a), tokenizeForMatch(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length < 2) return false;
+  const pool = new Set(longer);
+  return shorter.every(t => pool.has(t));
+};
+
+/**
+ * Merges regex pre-extraction with AI chunk results, keyed by ASIN or
+ * normalized name. Pre-extracted products win; AI fills in missing fields.
+ */
+const mergeExtractedProducts = (
+  preExtracted: ExtractedProduct[],
+  aiProducts: ChunkProduct[],
+  blocks: string[]
+): Map<string, MergedProduct> => {
+  const allProducts: Map<string, MergedProduct> = new Map();
+
+  // Add pre-extracted products (highest priority - from actual Amazon links)
+  for (const p of preExtracted) {
+    const key = p.asin || normalizeForMap(p.name);
+    if (allProducts.has(key)) continue;
+
+    const blockIndex = locateBlockIndex(blocks, [p.asin, p.name, ...(p.shortLinks || [])]);
+    if (!p.asin) {
+      // Same product under other wording ("Sony WH-1000XM5" vs its link text)
+      const entries = Array.from(allProducts.values());
+      if (entries.some(v => v.name && isSameProductName(v.name, p.name))) continue;
+
+      // Names a lone unnamed ASIN in its own block, or the one right below a heading
+      const hostBlocks = p.source === 'heading' ? [blockIndex, blockIndex + 1] : [blockIndex];
+      const host = blockIndex === -1 ? undefined : hostBlocks
+        .map(b => entries.filter(v => v.asin && v.blockIndex === b))
+        .find(inBlock => inBlock.length === 1 && !inBlock[0].name)?.[0];
+      if (host) {
+        host.name = p.name;
+        continue;
+      }
+    }
+
+    allProducts.set(key, {
+      asin: p.asin,
+      name: p.name,
+      brand: '',
+      category: '',
+      verdict: '',
+      blockIndex,
+      shortLinks: p.shortLinks,
+    });
+  }
+
+  // Add AI products from every chunk (merge data if exists, add new if not)
+  for (const p of aiProducts) {
+    if (!p.productName) continue;
+    
+    const key = normalizeForMap(p.productName);
+    const existing = allProducts.get(key);
+    
+    if (existing) {
+      // Merge AI data into existing
+      existing.name = existing.name || p.productName;
+      existing.brand = existing.brand || p.brand || '';
+      existing.category = existing.category || p.category || '';
+      existing.verdict = existing.verdict || p.verdict || '';
+      if (existing.blockIndex === -1) existing.blockIndex = p.blockIndex;
+    } else {
+      // Check if this matches any ASIN entry by name similarity (more robust)
+      let matched = false;
+      const pNameLower = p.productName.toLowerCase();
+      
+      for (const [_, v] of allProducts) {
+        if (v.asin && (!v.name || v.name.length < 10)) {
+          // If we have an ASIN but no good name, and AI found a name that might match
+          // (Simple heuristic: if brand is in the name or name is in the AI name)
+          if (pNameLower.includes(v.asin.toLowerCase()) || (v.name && pNameLower.includes(v.name.toLowerCase()))) {
+            v.name = p.productName;
+            v.brand = p.brand || '';
+            v.category = p.category || '';
+            v.verdict = p.verdict || '';
+            if (v.blockIndex === -1) v.blockIndex = p.blockIndex;
+            matched = true;
+            break;
+          }
+        }
+      }
+      
+      if (!matched) {
+        allProducts.set(key, {
+          asin: '',
+          name: p.productName,
+          brand: p.brand || '',
+          category: p.category || '',
+          verdict: p.verdict || '',
+          blockIndex: p.blockIndex,
+        });
+      }
+    }
+  }
+
+  return allProducts;
+};
+
+// ============================================================================
+// AI PLACEMENT - Recommended Insertion Blocks With Rationale
+// ============================================================================
+
+export interface AIPlacement {
+  productIndex: number;
+  blockIndex: number; // Box goes directly after this splitContentIntoBlocks index
+  rationale: string;
+}
+
+const createPlacementValidator = (productCount: number, blockCount: number) =>
+  (raw: unknown): SchemaResult<AIPlacement[]> => {
+    const placements = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).placements : undefined;
+    if (!Array.isArray(placements)) {
+      return { ok: false, errors: ['placements: expected an array'] };
+    }
+
+    const inRange = (v: unknown, count: number): v is number =>
+      typeof v === 'number' && Number.isInteger(v) && v >= 0 && v < count;
+
+    const errors: string[] = [];
+    const value: AIPlacement[] = [];
+    placements.forEach((item: unknown, i: number) => {
+      const at = `placements[${i}]`;
+      if (!item || typeof item !== 'object') {
+        errors.push(`${at}: expected an object`);
+        return;
+      }
+      const p = item as Record<string, unknown>;
+      if (!inRange(p.productIndex, productCount)) {
+        errors.push(`${at}.productIndex: must be an integer between 0 and ${productCount - 1}`);
+      }
+      if (!inRange(p.blockIndex, blockCount)) {
+        errors.push(`${at}.blockIndex: must be an integer between 0 and ${blockCount - 1}`);
+      }
+      value.push({ productIndex: Number(p.productIndex), blockIndex: Number(p.blockIndex), rationale: String(p.rationale || '').trim() });
+    });
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+  };
+
+/**
+ * Compact "[#N] snippet" outline of every non-empty block. Snippets shrink on
+ * long posts so the whole article fits in one placement request.
+ */
+const buildBlockOutline = (blocks: string[]): string => {
+  const entries = blocks
+    .map((block, i) => ({ i, text: htmlToPlainText(block) }))
+    .filter(e => e.text);
+  if (entries.length === 0) return '';
+
+  const snippetChars = Math.max(60, Math.min(
+    CONFIG.AI.PLACEMENT_SNIPPET_CHARS,
+    Math.floor(CONFIG.AI.MAX_CONTEXT_CHARS / entries.length) - 8
+  ));
+  return entries.map(e => `[#${e.i}] ${e.text.substring(0, snippetChars)}`).join('\n');
+};
+
+/**
+ * Asks the model which block each product box should follow. Products the
+ * model skips keep no recommendation and fall back to heuristic placement.
+ */
+const recommendPlacementsWithAI = async (
+  title: string,
+  products: ProductDetails[],
+  blocks: string[],
+  config: AppConfig,
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<AIPlacement[]> => {
+  const systemPrompt = `You are an affiliate content editor deciding where product boxes go in an article.
+Each box is inserted directly AFTER the block you choose.
+
+RULES:
+1. Choose the block that introduces, reviews or recommends that specific product.
+2. Never choose a bare heading; choose the paragraph that follows it instead.
+3. Avoid the intro and conclusion unless the product is only mentioned there.
+4. Give each product its own block where possible.
+5. rationale: one short sentence explaining the choice.
+
+Return JSON: {"placements": [{"productIndex": 0, "blockIndex": 12, "rationale": "..."}]}`;
+
+  const productList = products
+    .map((p, i) => `${i}. ${p.title} | Brand: ${p.brand || 'unknown'}${p.sourceBlockIndex !== undefined && p.sourceBlockIndex >= 0 ? ` | First mentioned in block #${p.sourceBlockIndex}` : ''}`)
+    .join('\n');
+
+  const userPrompt = `ARTICLE TITLE: "${title}"\n\nPRODUCTS:\n${productList}\n\nBLOCKS:\n${buildBlockOutline(blocks)}`;
+
+  return generateValidatedAIContent(
+    config,
+    apiKey,
+    { systemPrompt, userPrompt, purpose: 'placement', signal },
+    createPlacementValidator(products.length, blocks.length)
+  );
+};
+
+/**
+ * Runs an extraction template against the first chunk of a post and returns
+ * the raw model output unvalidated, so editors can see exactly what it does.
+ */
+export const testExtractionPrompt = async (
+  title: string,
+  htmlContent: string,
+  config: AppConfig,
+  templateId?: string
+): Promise<{ templateName: string; version: number; systemPrompt: string; rawOutput: string }> => {
+  const apiKey = requireAIApiKey(config);
+
+  const template = getPromptLibrary(config).templates.find(t => t.id === templateId && t.purpose === 'extraction')
+    || resolvePromptTemplate(config, 'extraction');
+  const chunks = chunkBlocksForAI(splitContentIntoBlocks(htmlContent));
+  if (chunks.length === 0) {
+    throw new ValidationError('Post has no text content to test against', 'content');
+  }
+
+  const { systemPrompt, userPrompt } = buildExtractionPrompts(
+    title,
+    chunks[0],
+    chunks.length,
+    preExtractAmazonProducts(htmlContent),
+    config,
+    latestPromptBody(template),
+    resolveContentLanguage(config, htmlToPlainText(htmlContent))
+  );
+  const rawOutput = await generateAIContent(config, apiKey, { systemPrompt, userPrompt, jsonMode: true, purpose: 'prompt-test' });
+
+  return {
+    templateName: template.name,
+    version: template.versions[template.versions.length - 1]?.version || 1,
+    systemPrompt,
+    rawOutput,
+  };
+};
+
+// ============================================================================
+// OFFLINE EXTRACTION - Deterministic Mode & Fixture Regression Report
+// ============================================================================
+
+export interface OfflineChunk {
+  index: number;
+  startBlock: number;
+  endBlock: number;
+  text: string;
+}
+
+export interface OfflineExtractionOptions {
+  /** Stands in for the model: returns the raw extraction JSON for a chunk, or null to skip AI. */
+  aiResponder?: (chunk: OfflineChunk, title: string) => unknown;
+}
+
+export interface OfflineExtractedProduct {
+  asin: string;
+  name: string;
+  brand: string;
+  category: string;
+  blockIndex: number;
+}
+
+export interface FixtureExtractionResult {
+  id: string;
+  title: string;
+  expected: number;
+  found: string[];
+  truePositives: number;
+  falsePositives: string[];
+  missed: string[];
+  precision: number;
+  recall: number;
+}
+
+export interface ExtractionRegressionReport {
+  fingerprint: string;
+  ranAt: number;
+  aiReplay: boolean;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  fixtures: FixtureExtractionResult[];
+}
+
+const EXTRACTION_BASELINE_KEY = 'amzwp_extraction_baseline_v1';
+
+/**
+ * Runs the regex/DOM strategies and the same chunking, validation and merge
+ * steps as analyzeContentAndFindProduct, with no network access. Without an
+ * aiResponder only the regex strategies contribute.
+ */
+export const extractProductsOffline = (
+  title: string,
+  html: string,
+  options: OfflineExtractionOptions = {}
+): OfflineExtractedProduct[] => {
+  const preExtracted = preExtractAmazonProducts(html);
+  const blocks = splitContentIntoBlocks(html);
+  const aiProducts: ChunkProduct[] = [];
+
+  if (options.aiResponder) {
+    for (const chunk of chunkBlocksForAI(blocks)) {
+      const raw = options.aiResponder(
+        { index: chunk.index, startBlock: chunk.startBlock, endBlock: chunk.endBlock, text: chunk.text },
+        title
+      );
+      if (raw === null || raw === undefined) continue;
+
+      const result = validateExtractionResponse(raw);
+      if (!result.ok) {
+        console.warn(`[OFFLINE] Replayed response for chunk ${chunk.index + 1} failed validation:`, result.errors.slice(0, 3));
+        continue;
+      }
+      aiProducts.push(...pinChunkProducts(result.value, chunk, blocks));
+    }
+  }
+
+  // Mirror the scan: only the first MAX_PRODUCTS_PER_SCAN candidates are looked up
+  return Array.from(mergeExtractedProducts(preExtracted, aiProducts, blocks).values())
+    .filter(p => p.asin || p.name)
+    .slice(0, CONFIG.AI.MAX_PRODUCTS_PER_SCAN)
+    .map(({ asin, name, brand, category, blockIndex }) => ({ asin, name, brand, category, blockIndex }));
+};
+
+/**
+ * Short hash of every pre-extraction pattern and FORBIDDEN_PRODUCT_WORDS.
+ * A change means the saved baseline report no longer describes this build.
+ */
+export const getExtractionFingerprint = (): string => {
+  const patterns = Object.values(EXTRACTION_PATTERNS)
+    .flat()
+    .map(p => `${p.source}/${p.flags}`);
+  const input = JSON.stringify([patterns, FORBIDDEN_PRODUCT_WORDS]);
+
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Words a found name may differ from the expected one by ("... Wireless Headphones")
+const MAX_NAME_TOKEN_DIFFERENCE = 2;
+
+/**
+ * ASINs must agree exactly. Names match by tokens, and sentence fragments
+ * around a real name ("Breville Bambino Plus has earned its") do not count.
+ */
+const matchesExpected = (found: OfflineExtractedProduct, expected: ExpectedFixtureProduct): boolean => {
+  if (found.asin && expected.asin) return found.asin.toUpperCase() === expected.asin.toUpperCase();
+
+  const difference = Math.abs(tokenizeForMatch(found.name).length - tokenizeForMatch(expected.name).length);
+  return difference <= MAX_NAME_TOKEN_DIFFERENCE && isSameProductName(found.name, expected.name);
+};
+
+const ratio = (numerator: number, denominator: number): number => denominator === 0 ? 1 : numerator / denominator;
+
+/**
+ * Scores offline extraction against a fixture corpus. Each expected product
+ * can be matched once; anything extra counts as a false positive.
+ */
+export const runExtractionRegression = (
+  fixtures: ExtractionFixture[],
+  options: { replayAI?: boolean } = {}
+): ExtractionRegressionReport => {
+  const results = fixtures.map((fixture): FixtureExtractionResult => {
+    const found = extractProductsOffline(fixture.title, fixture.html, {
+      aiResponder: options.replayAI ? (chunk) => fixture.aiResponses?.[chunk.index] ?? null : undefined,
+    });
+
+    const unmatched = [...fixture.expected];
+    const falsePositives: string[] = [];
+    for (const product of found) {
+      const hit = unmatched.findIndex(e => matchesExpected(product, e));
+      if (hit === -1) falsePositives.push(product.name || product.asin);
+      else unmatched.splice(hit, 1);
+    }
+
+    const truePositives = found.length - falsePositives.length;
+    return {
+      id: fixture.id,
+      title: fixture.title,
+      expected: fixture.expected.length,
+      found: found.map(p => p.name || p.asin),
+      truePositives,
+      falsePositives,
+      missed: unmatched.map(e => e.name),
+      precision: ratio(truePositives, found.length),
+      recall: ratio(truePositives, fixture.expected.length),
+    };
+  });
+
+  const truePositives = results.reduce((sum, r) => sum + r.truePositives, 0);
+  const falsePositives = results.reduce((sum, r) => sum + r.falsePositives.length, 0);
+  const falseNegatives = results.reduce((sum, r) => sum + r.missed.length, 0);
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return {
+    fingerprint: getExtractionFingerprint(),
+    ranAt: Date.now(),
+    aiReplay: !!options.replayAI,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision,
+    recall,
+    f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall),
+    fixtures: results,
+  };
+};
+
+export const getExtractionBaseline = (): ExtractionRegressionReport | null => {
+  try {
+    const raw = localStorage.getItem(EXTRACTION_BASELINE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveExtractionBaseline = (report: ExtractionRegressionReport): void => {
+  try {
+    localStorage.setItem(EXTRACTION_BASELINE_KEY, JSON.stringify(report));
+  } catch (e) {
+    console.warn('[OFFLINE] Failed to save extraction baseline:', e);
+  }
+};
+
+// ============================================================================
+// ULTRA-RELIABLE AI ANALYSIS ENGINE
+// ============================================================================
+
+export interface AnalysisOptions {
+  onProgress?: (event: ScanProgressEvent) => void;
+  signal?: AbortSignal; // Aborting stops the scan at the next step boundary
+}
+
+export const analyzeContentAndFindProduct = async (
+  title: string,
+  htmlContent: string,
+  config: AppConfig,
+  options: AnalysisOptions = {}
+): Promise<{
+  detectedProducts: ProductDetails[];
+  product: ProductDetails | null;
+  comparison?: ComparisonData;
+  carousel?: CarouselData;
+  language: ContentLanguage;
+  warnings: string[];
+  foreignMarketplaceLinks: ForeignMarketplaceLinks[];
+}> => {
+  console.log('[SCAN] Starting ultra-reliable product detection...');
+  console.log('[SCAN] Title:', title);
+  console.log('[SCAN] Content length:', htmlContent.length);
+
+  const apiKey = requireAIApiKey(config);
+  assertAIBudget(config);
+
+  // A throwing listener must never break the scan
+  const emit = (event: ScanProgressEvent) => {
+    try {
+      options.onProgress?.(event);
+    } catch (e) {
+      console.warn('[SCAN] Progress listener failed:', e);
+    }
+  };
+  const throwIfCancelled = () => {
+    if (options.signal?.aborted) throw new ScanCancelledError();
+  };
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 1: PRE-EXTRACT PRODUCTS FROM HTML (Regex + Pattern Matching)
+  // ═══════════════════════════════════════════════════════════════════════════
+  
+  const shortLinks = await resolveAmazonShortLinks(htmlContent, options.signal);
+  throwIfCancelled();
+  const preExtracted = preExtractAmazonProducts(htmlContent, shortLinks);
+  console.log(`[SCAN] Pre-extracted ${preExtracted.length} products from HTML`);
+
+  const marketplace = resolveMarketplace(config);
+  const foreignLinks = findForeignMarketplaceLinks(htmlContent, marketplace);
+  if (foreignLinks.length > 0) {
+    console.warn(`[SCAN] Links to other Amazon stores than ${marketplace.domain}:`, foreignLinks);
+  }
+
+  // If we found ASINs, we can guarantee those products exist
+  const asinsFound = preExtracted.filter(p => p.asin).map(p => p.asin);
+  const namesFound = preExtracted.filter(p => p.name && !p.asin).map(p => p.name);
+  
+  console.log(`[SCAN] ASINs found: ${asinsFound.length}`, asinsFound.slice(0, 5));
+  console.log(`[SCAN] Names found: ${namesFound.length}`, namesFound.slice(0, 5));
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 2: AI ENHANCEMENT (Runs on the configured provider)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  // Clean content for AI
+  const plainText = htmlToPlainText(htmlContent);
+  const language = resolveContentLanguage(config, plainText);
+  console.log(`[SCAN] Content language: ${language}`);
+
+  // Long posts are split along block boundaries and analyzed chunk by chunk
+  const blocks = splitContentIntoBlocks(htmlContent);
+  const chunks = chunkBlocksForAI(blocks);
+  const chunkResults: ChunkProduct[][] = [];
+  const aiErrors: Error[] = [];
+  console.log(`[SCAN] Analyzing ${blocks.length} blocks in ${chunks.length} chunk(s)`);
+  emit({ type: 'pre-extraction', asins: asinsFound.length, names: namesFound.length, blocks: blocks.length, chunks: chunks.length, language });
+
+  await runConcurrent(chunks, CONFIG.AI.CHUNK_CONCURRENCY, async (chunk) => {
+    if (options.signal?.aborted) return;
+    const label = `Chunk ${chunk.index + 1}/${chunks.length}`;
+    emit({ type: 'ai-start', stage: 'extraction', label });
+    try {
+      const found = await extractProductsFromChunk(title, chunk, chunks.length, blocks, preExtracted, config, apiKey, language, options.signal);
+      chunkResults[chunk.index] = found;
+      console.log(`[SCAN] Chunk ${chunk.index + 1}/${chunks.length}: ${found.length} high-confidence products`);
+      emit({ type: 'ai-end', stage: 'extraction', label, ok: true, detail: `${found.length} products` });
+    } catch (e: any) {
+      aiErrors.push(e);
+      console.warn(`[SCAN] AI enhancement failed for chunk ${chunk.index + 1}, using pre-extracted only:`, e.message);
+      emit({ type: 'ai-end', stage: 'extraction', label, ok: false, detail: e.message });
+    }
+  });
+  throwIfCancelled();
+
+  const aiProducts = chunkResults.flat().filter(Boolean);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 3: MERGE & DEDUPLICATE PRODUCTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const allProducts = mergeExtractedProducts(preExtracted, aiProducts, blocks);
+  console.log(`[SCAN] Total merged products: ${allProducts.size}`);
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 4: LOOKUP AMAZON DATA & BUILD FINAL PRODUCTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  const processed: ProductDetails[] = [];
+  let idx = 0;
+
+  const lookupTotal = Math.min(allProducts.size, CONFIG.AI.MAX_PRODUCTS_PER_SCAN);
+  let lookupIndex = 0;
+
+  for (const [_, product] of allProducts) {
+    if (idx >= CONFIG.AI.MAX_PRODUCTS_PER_SCAN) break;
+    throwIfCancelled();
+
+    try {
+      // Search Amazon for product data
+      const searchQuery = product.asin || product.name;
+      if (!searchQuery) continue;
+
+      const index = lookupIndex++;
+      emit({ type: 'lookup-start', index, total: lookupTotal, query: searchQuery });
+      const cacheQuery = (!product.asin && getRememberedCandidate(searchQuery, marketplace.id)) || searchQuery;
+      const cached = getProductSourceOrder(config).includes('cache') ? findCachedAmazonProduct(cacheQuery, marketplace.id) : null;
+      if (cached) emit({ type: 'cache-hit', query: searchQuery, asin: cached.asin });
+
+      const amz = await searchAmazonProduct(searchQuery, config, { signal: options.signal });
+      const lookupStatus: ScanLookupStatus = cached ? 'cached' : amz.asin ? 'found' : 'not-found';
+      emit({ type: 'lookup-end', index, total: lookupTotal, query: searchQuery, status: lookupStatus, title: amz.title || product.name });
+      
+      // Skip if we couldn't find any data
+      if (!amz.title && !product.name) continue;
+
+      const finalName = amz.title || product.name;
+      const finalBrand = amz.brand || product.brand || '';
+      const finalCategory = product.category || 'Product';
+
+      // Generate dynamic product-specific description
+      const dynamicVerdict = generateDynamicVerdict(
+        finalName,
+        finalBrand,
+        finalCategory,
+        product.verdict,
+        language
+      );
+
+      processed.push({
+        id: crypto.randomUUID?.() || `${Date.now()}-${idx}-${Math.random().toString(36).substr(2, 5)}`,
+        asin: amz.asin || product.asin || '',
+        title: finalName.substring(0, 80),
+        brand: finalBrand,
+        category: finalCategory,
+        price: amz.price || 'Check Price',
+        imageUrl: amz.imageUrl,
+        rating: amz.rating,
+        reviewCount: amz.reviewCount,
+        prime: amz.prime,
+        listPrice: amz.listPrice,
+        availability: amz.availability,
+        stockStatus: amz.stockStatus,
+        offerCount: amz.offerCount,
+        images: amz.images,
+        features: amz.features,
+        detailPageUrl: amz.detailPageUrl,
+        dataSource: amz.dataSource,
+        fieldSources: amz.fieldSources,
+        marketplace: amz.marketplace || marketplace.id,
+        lookupQuery: product.asin ? undefined : searchQuery,
+        verdict: dynamicVerdict,
+        pros: [],
+        cons: [],
+        evidenceClaims: [],
+        faqs: [],
+        entities: [],
+        specs: {},
+        insertionIndex: -1,
+        sourceBlockIndex: product.blockIndex,
+        shortLinks: product.shortLinks,
+        language,
+        deploymentMode: 'ELITE_BENTO' as DeploymentMode,
+      });
+
+      idx++;
+      console.log(`[SCAN] Added product ${idx}: ${finalName}`);
+      
+    } catch (e) {
+      console.warn('[SCAN] Error processing product:', e);
+    }
+  }
+  throwIfCancelled();
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 4A: GEO AVAILABILITY (Alternate stores for geo-targeted links)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  if (config.geoTargets?.length && processed.length > 0) {
+    await checkGeoAvailability(processed, config, options.signal);
+  }
+  throwIfCancelled();
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 4B: ENRICH PRODUCTS (Second AI pass per product)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  // A budget hit after extraction degrades to canned copy instead of failing the scan
+  let budgetError: AIBudgetExceededError | undefined;
+
+  await runConcurrent(processed, CONFIG.AI.ENRICHMENT_CONCURRENCY, async (product) => {
+    if (options.signal?.aborted) return;
+    emit({ type: 'ai-start', stage: 'enrichment', label: product.title });
+    try {
+      Object.assign(product, await enrichProductWithAI(product, plainText, config, apiKey, language, options.signal));
+      console.log(`[SCAN] Enriched: ${product.title}`);
+      emit({ type: 'ai-end', stage: 'enrichment', label: product.title, ok: true });
+    } catch (e: any) {
+      if (e instanceof AIBudgetExceededError) budgetError = e;
+      console.warn(`[SCAN] Enrichment failed for "${product.title}":`, e.message);
+      emit({ type: 'ai-end', stage: 'enrichment', label: product.title, ok: false, detail: e.message });
+    }
+  });
+  throwIfCancelled();
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 4C: COMPARISON MATRIX (Listicles with 3+ products)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  let comparison: ComparisonData | undefined = undefined;
+  if (processed.length >= CONFIG.AI.COMPARISON_PICKS) {
+    emit({ type: 'ai-start', stage: 'comparison', label: 'Comparison matrix' });
+    try {
+      comparison = await buildComparisonWithAI(title, processed, plainText, config, apiKey, language, options.signal);
+      console.log(`[SCAN] Comparison matrix: ${comparison.specs.join(', ')}`);
+      emit({ type: 'ai-end', stage: 'comparison', label: 'Comparison matrix', ok: true, detail: comparison.specs.join(', ') });
+    } catch (e: any) {
+      if (e instanceof AIBudgetExceededError) budgetError = e;
+      console.warn('[SCAN] Comparison AI pass failed, using fallback matrix:', e.message);
+      comparison = buildFallbackComparison(processed, language);
+      emit({ type: 'ai-end', stage: 'comparison', label: 'Comparison matrix', ok: false, detail: 'Using fallback matrix' });
+    }
+  }
+  throwIfCancelled();
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 4D: PLACEMENT (Recommended block per product, heuristic fallback in editor)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  if (processed.length > 0) {
+    emit({ type: 'ai-start', stage: 'placement', label: 'Box placement' });
+    try {
+      const placements = await recommendPlacementsWithAI(title, processed, blocks, config, apiKey, options.signal);
+      placements.forEach(({ productIndex, blockIndex, rationale }) => {
+        const product = processed[productIndex];
+        if (!product || product.recommendedBlockIndex !== undefined) return;
+        product.recommendedBlockIndex = blockIndex;
+        product.placementRationale = rationale;
+      });
+      console.log(`[SCAN] Placement recommended for ${placements.length} product(s)`);
+      emit({ type: 'ai-end', stage: 'placement', label: 'Box placement', ok: true, detail: `${placements.length} placed` });
+    } catch (e: any) {
+      if (e instanceof AIBudgetExceededError) budgetError = e;
+      console.warn('[SCAN] Placement AI pass failed, editor will use heuristic placement:', e.message);
+      emit({ type: 'ai-end', stage: 'placement', label: 'Box placement', ok: false, detail: 'Using heuristic placement' });
+    }
+  }
+  throwIfCancelled();
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STEP 5: CACHE & RETURN
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  console.log(`[SCAN] COMPLETE - Found ${processed.length} products`);
+
+  // Nothing found and the AI failed: surface the real cause instead of an empty result
+  if (processed.length === 0 && aiErrors.length > 0) {
+    throw aiErrors[0];
+  }
+
+  let carousel: CarouselData | undefined = undefined;
+  if (processed.length >= 4) {
+    carousel = {
+      title: getBoxLocale(language).topRatedTitle(processed[0].category),
+      productIds: processed.slice(0, 8).map(p => p.id),
+      language,
+    };
+  }
+
+  if (processed.length > 0) {
+    const contentHash = generateContentHash(title, htmlContent.length);
+    IntelligenceCache.setAnalysis(contentHash, { products: processed, comparison, carousel });
+  }
+
+  const warnings = [...aiErrors, ...(budgetError ? [budgetError] : [])].map(e => e.message);
+  emit({ type: 'complete', products: processed.length, warnings: warnings.length });
+
+  return {
+    detectedProducts: processed,
+    product: processed[0] || null,
+    comparison,
+    carousel,
+    language,
+    warnings,
+    foreignMarketplaceLinks: foreignLinks,
+  };
+};
+
+
+// ============================================================================
+// CONTENT MANIPULATION
+// ============================================================================
+
+export const splitContentIntoBlocks = (html: string): string[] => {
   if (!html) return [];
 
   const parts = html.split(/(<!-- \/?wp:.*? -->)/g).filter(p => p !== undefined && p !== '');
@@ -1707,92 +4128,792 @@ export const splitContentIntoBlocks = (html: string): string[] => {
     }
   }
 
-  if (current.trim()) blocks.push(current);
+  if (current.trim()) blocks.push(current);
+
+  // Fallback: Split by paragraphs/headings if no WP blocks found
+  if (blocks.length < 2) {
+    return html
+      .split(/<\/p>|(?=<h[1-6]>)/i)
+      .filter(Boolean)
+      .map(s => (s.trim().endsWith('</p>') ? s : s + '</p>'));
+  }
+
+  return blocks;
+};
+
+export const insertIntoContent = (
+  html: string, 
+  products: ProductDetails[], 
+  config: AppConfig
+): string => {
+  // Clean existing product boxes
+  let clean = (html || '').replace(
+    /<!-- wp:html -->[\s\S]*?<!-- \/wp:html -->/g,
+    (match) => {
+      const isProductBox = /s-box|t-link-box|comp-table|auth-v|tact-v/i.test(match);
+      return isProductBox ? '' : match;
+    }
+  );
+
+  const blocks = splitContentIntoBlocks(clean);
+  const output = [...blocks];
+
+  // Sort products by insertion index (descending to preserve indices)
+  const sorted = [...products]
+    .filter(p => p.insertionIndex !== -1)
+    .sort((a, b) => b.insertionIndex - a.insertionIndex);
+
+  for (const product of sorted) {
+    const box = generateProductBoxHtml(product, config.amazonTag, product.deploymentMode, config.geoTargets);
+    output.splice(Math.min(product.insertionIndex, output.length), 0, box);
+  }
+
+  return output.join('\n\n');
+};
+
+// ============================================================================
+// SEMANTIC RELEVANCE ENGINE - Offline TF-IDF With Synonym Expansion
+// ============================================================================
+
+const RELEVANCE_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'your', 'you', 'are', 'was', 'but', 'not', 'have', 'has',
+  'its', 'our', 'can', 'will', 'all', 'any', 'more', 'most', 'best', 'new', 'one', 'also', 'just', 'than', 'into',
+  'out', 'about', 'what', 'when', 'which', 'their', 'they', 'them', 'these', 'those', 'very', 'product', 'products',
+]);
+
+/**
+ * Interchangeable terms per product family. A product mentioning any term is
+ * matched against blocks that use the others ("cans" ~ "headphones").
+ */
+const SEMANTIC_GROUPS: string[][] = [
+  ['headphone', 'headset', 'earbud', 'earphone', 'cans', 'over-ear', 'in-ear', 'anc', 'noise-cancelling', 'noise-canceling', 'noise-cancellation', 'cancellation', 'audio', 'listening'],
+  ['speaker', 'soundbar', 'subwoofer', 'audio', 'bluetooth', 'sound'],
+  ['laptop', 'notebook', 'ultrabook', 'chromebook', 'macbook', 'computer', 'pc'],
+  ['phone', 'smartphone', 'iphone', 'android', 'mobile', 'handset'],
+  ['tablet', 'ipad', 'e-reader', 'kindle'],
+  ['monitor', 'display', 'screen', 'panel', 'oled', 'ips'],
+  ['tv', 'television', 'oled', 'qled', 'streaming'],
+  ['camera', 'dslr', 'mirrorless', 'lens', 'photography', 'vlogging', 'gopro'],
+  ['coffee', 'espresso', 'brew', 'brewer', 'grinder', 'barista', 'latte'],
+  ['blender', 'mixer', 'cookware', 'pan', 'knife', 'kitchen', 'cooking', 'fryer', 'oven'],
+  ['vacuum', 'cleaner', 'mop', 'robot', 'suction', 'cleaning'],
+  ['treadmill', 'dumbbell', 'fitness', 'workout', 'exercise', 'gym', 'yoga'],
+  ['dog', 'cat', 'pet', 'puppy', 'kitten', 'leash', 'litter'],
+  ['baby', 'infant', 'toddler', 'stroller', 'crib', 'nursery'],
+  ['skincare', 'serum', 'moisturizer', 'cleanser', 'beauty', 'makeup', 'cosmetic'],
+  ['gaming', 'gamer', 'console', 'controller', 'esports', 'keyboard', 'mouse'],
+  ['drill', 'saw', 'tool', 'toolkit', 'cordless', 'workshop'],
+  ['tent', 'camping', 'hiking', 'backpack', 'outdoor', 'trail'],
+  ['watch', 'smartwatch', 'wearable', 'tracker', 'fitbit'],
+  ['router', 'wifi', 'mesh', 'modem', 'network'],
+  ['mattress', 'pillow', 'bedding', 'sleep'],
+];
+
+const stemToken = (token: string): string => {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+  if (token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('es') && /(?:ch|sh|x|ss)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+};
+
+/**
+ * Lowercases, splits and stems text. Hyphenated compounds are kept whole and
+ * also split, so "noise-cancelling" matches both the phrase and its parts.
+ */
+const tokenizeForRelevance = (text: string): string[] => {
+  const tokens: string[] = [];
+  (text || '').toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').split(/\s+/).forEach(raw => {
+    const word = raw.replace(/^-+|-+$/g, '');
+    if (!word) return;
+    const parts = word.includes('-') ? [word, ...word.split('-')] : [word];
+    parts.forEach(part => {
+      if (part.length < 2 || RELEVANCE_STOP_WORDS.has(part)) return;
+      tokens.push(stemToken(part));
+    });
+  });
+  return tokens;
+};
+
+const SYNONYM_INDEX: Map<string, Set<string>> = (() => {
+  const index = new Map<string, Set<string>>();
+  SEMANTIC_GROUPS.forEach(group => {
+    const stems = group.map(stemToken);
+    stems.forEach(stem => {
+      const related = index.get(stem) || new Set<string>();
+      stems.forEach(other => other !== stem && related.add(other));
+      index.set(stem, related);
+    });
+  });
+  return index;
+})();
+
+type TermVector = Map<string, number>;
+
+const termFrequencies = (tokens: string[]): TermVector => {
+  const tf: TermVector = new Map();
+  tokens.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+  return tf;
+};
+
+export interface RelevanceEngine {
+  /** Similarity of a block of HTML or text to a product; higher is better. */
+  score: (text: string, product: ProductDetails) => number;
+}
+
+/**
+ * Builds an offline relevance scorer whose IDF weights come from the post's
+ * own blocks. Products are expanded with their category, entities, spec names
+ * and SEMANTIC_GROUPS synonyms, then compared to blocks by cosine similarity.
+ */
+export const createRelevanceEngine = (corpus: string[]): RelevanceEngine => {
+  const docs = corpus.map(doc => new Set(tokenizeForRelevance(htmlToPlainText(doc))));
+  const docFreq = new Map<string, number>();
+  docs.forEach(terms => terms.forEach(t => docFreq.set(t, (docFreq.get(t) || 0) + 1)));
+  const idf = (term: string) => Math.log((docs.length + 1) / ((docFreq.get(term) || 0) + 1)) + 1;
+
+  const weigh = (tf: TermVector): { vector: TermVector; norm: number } => {
+    const vector: TermVector = new Map();
+    let sumSquares = 0;
+    tf.forEach((count, term) => {
+      const w = (1 + Math.log(count)) * idf(term);
+      vector.set(term, w);
+      sumSquares += w * w;
+    });
+    return { vector, norm: Math.sqrt(sumSquares) };
+  };
+
+  const blockCache = new Map<string, { vector: TermVector; norm: number; plain: string }>();
+  const blockVector = (text: string) => {
+    let entry = blockCache.get(text);
+    if (!entry) {
+      const plain = htmlToPlainText(text).toLowerCase();
+      entry = { ...weigh(termFrequencies(tokenizeForRelevance(plain))), plain };
+      blockCache.set(text, entry);
+    }
+    return entry;
+  };
+
+  const productCache = new Map<string, { vector: TermVector; norm: number }>();
+  const productVector = (product: ProductDetails) => {
+    const key = `${product.id}|${product.title}|${product.category}|${(product.entities || []).join(',')}`;
+    let entry = productCache.get(key);
+    if (!entry) {
+      const tf = termFrequencies([
+        ...tokenizeForRelevance(product.title),
+        ...tokenizeForRelevance(product.title), // Title terms count double
+        ...tokenizeForRelevance(product.brand),
+        ...tokenizeForRelevance(product.category),
+        ...tokenizeForRelevance((product.entities || []).join(' ')),
+        ...tokenizeForRelevance(Object.keys(product.specs || {}).join(' ')),
+      ]);
+      // Synonyms contribute at half weight so literal mentions still win
+      Array.from(tf.entries()).forEach(([term, count]) => {
+        SYNONYM_INDEX.get(term)?.forEach(syn => {
+          if (!tf.has(syn)) tf.set(syn, Math.max(0.5, count * 0.5));
+        });
+      });
+      entry = weigh(tf);
+      productCache.set(key, entry);
+    }
+    return entry;
+  };
+
+  return {
+    score: (text, product) => {
+      const block = blockVector(text);
+      const query = productVector(product);
+
+      let dot = 0;
+      query.vector.forEach((w, term) => {
+        const bw = block.vector.get(term);
+        if (bw) dot += w * bw;
+      });
+      const cosine = block.norm && query.norm ? dot / (block.norm * query.norm) : 0;
+
+      let score = cosine * 100;
+      // Literal mentions remain the strongest signal
+      if (product.title && block.plain.includes(product.title.toLowerCase())) score += 50;
+      if (product.brand && block.plain.includes(product.brand.toLowerCase())) score += 10;
+      // Very short blocks are usually headings; avoid them unless strongly matched
+      if (block.plain.length < 50 && score < 50) score -= 10;
+
+      return score;
+    },
+  };
+};
+
+// ============================================================================
+// AMAZON PA-API 5.0 CLIENT - SigV4-Signed GetItems & SearchItems
+// ============================================================================
+
+export type PAAPIOperation = 'GetItems' | 'SearchItems';
+
+export interface PAAPICredentials {
+  accessKey: string;
+  secretKey: string;
+  partnerTag: string;
+  region: string;
+  host: string; // Bare host signs against https://host; a full URL (local stub) is used as-is
+  marketplace: string;
+}
+
+const PAAPI_DEFAULTS = {
+  SERVICE: 'ProductAdvertisingAPI',
+  TARGET_PREFIX: 'com.amazon.paapi5.v1.ProductAdvertisingAPIv1',
+} as const;
+
+const PAAPI_RESOURCES = [
+  'ItemInfo.Title',
+  'ItemInfo.ByLineInfo',
+  'ItemInfo.Features',
+  'Images.Primary.Large',
+  'Images.Variants.Large',
+  'Offers.Listings.Price',
+  'Offers.Listings.SavingBasis',
+  'Offers.Listings.Availability.Message',
+  'Offers.Listings.DeliveryInfo.IsPrimeEligible',
+  'Offers.Summaries.OfferCount',
+  'CustomerReviews.Count',
+  'CustomerReviews.StarRating',
+];
+
+const ASIN_REGEX = /^(?:B[0-9A-Z]{9}|\d{9}[\dX])$/;
+
+/**
+ * Decrypted PA-API credentials for a marketplace (the site's by default), or null when either
+ * key is missing. The region setting only applies alongside a host override.
+ */
+export const getPAAPICredentials = (
+  config: AppConfig,
+  marketplace: MarketplaceInfo = resolveMarketplace(config)
+): PAAPICredentials | null => {
+  const accessKey = SecureStorage.decrypt(config.amazonAccessKey || '').trim();
+  const secretKey = SecureStorage.decrypt(config.amazonSecretKey || '').trim();
+  if (!accessKey || !secretKey) return null;
+
+  const hostOverride = (config.amazonPaapiHost || '').trim().replace(/\/$/, '');
+  return {
+    accessKey,
+    secretKey,
+    partnerTag: (config.amazonTag || '').trim(),
+    region: hostOverride ? (config.amazonRegion || marketplace.paapiRegion).trim() : marketplace.paapiRegion,
+    host: hostOverride || marketplace.paapiHost,
+    marketplace: `www.${marketplace.domain}`,
+  };
+};
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (data: string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)));
+
+const hmacSha256 = async (key: BufferSource, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(data));
+};
+
+/**
+ * AWS Signature Version 4 headers for a PA-API POST. Exported so the
+ * signature can be checked against AWS reference values.
+ */
+export const signPAAPIRequest = async (
+  credentials: Pick<PAAPICredentials, 'accessKey' | 'secretKey' | 'region'>,
+  host: string,
+  path: string,
+  target: string,
+  payload: string,
+  now: Date = new Date()
+): Promise<Record<string, string>> => {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, ''); // YYYYMMDDTHHMMSSZ
+  const dateStamp = amzDate.substring(0, 8);
+  const scope = `${dateStamp}/${credentials.region}/${PAAPI_DEFAULTS.SERVICE}/aws4_request`;
+
+  const headers: Record<string, string> = {
+    'content-encoding': 'amz-1.0',
+    'content-type': 'application/json; charset=utf-8',
+    host,
+    'x-amz-date': amzDate,
+    'x-amz-target': target,
+  };
+  const signedHeaders = Object.keys(headers).sort().join(';');
+  const canonicalHeaders = Object.keys(headers).sort().map(k => `${k}:${headers[k]}\n`).join('');
+
+  const canonicalRequest = ['POST', path, '', canonicalHeaders, signedHeaders, await sha256Hex(payload)].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+  let signingKey = await hmacSha256(new TextEncoder().encode(`AWS4${credentials.secretKey}`), dateStamp);
+  for (const part of [credentials.region, PAAPI_DEFAULTS.SERVICE, 'aws4_request']) {
+    signingKey = await hmacSha256(signingKey, part);
+  }
+  const signature = toHex(await hmacSha256(signingKey, stringToSign));
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKey}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+/**
+ * Signs and sends one PA-API operation. Amazon does not serve CORS headers,
+ * so a blocked direct call is retried through corsproxy.io with the same
+ * signed request (the signature covers the upstream host, not the proxy).
+ */
+const callPAAPI = async (
+  credentials: PAAPICredentials,
+  operation: PAAPIOperation,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<any> => {
+  const baseUrl = /^https?:\/\//i.test(credentials.host) ? credentials.host : `https://${credentials.host}`;
+  const path = `/paapi5/${operation.toLowerCase()}`;
+  const url = `${baseUrl}${path}`;
+  const payload = JSON.stringify({
+    ...body,
+    PartnerTag: credentials.partnerTag,
+    PartnerType: 'Associates',
+    Marketplace: credentials.marketplace,
+    Resources: PAAPI_RESOURCES,
+  });
+
+  const headers = await signPAAPIRequest(credentials, new URL(url).host, path, `${PAAPI_DEFAULTS.TARGET_PREFIX}.${operation}`, payload);
+  // Browsers set Host themselves and refuse to send it
+  const { host: _host, ...sendHeaders } = headers;
+  const init = (): RequestInit => ({
+    method: 'POST',
+    headers: sendHeaders,
+    body: payload,
+    signal: withCallerSignal(AbortSignal.timeout(CONFIG.NETWORK.PAAPI_TIMEOUT_MS), signal),
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, init());
+  } catch (error) {
+    if (baseUrl !== `https://${credentials.host}`) throw error; // Custom host (stub): no proxy retry
+    response = await fetch(`https://corsproxy.io/?${encodeURIComponent(url)}`, init());
+  }
+
+  const text = await response.text();
+  let data: any = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    // Non-JSON bodies fall through to the HTTP status error below
+  }
+
+  const apiError = data?.Errors?.[0];
+  // GetItems reports unknown ASINs per item; only request-level errors fail the call
+  const itemLevelOnly = operation === 'GetItems' && rejectedItemIds(data, body).length === (data?.Errors?.length || 0) && !!apiError;
+  if (!itemLevelOnly && (!response.ok || (apiError && !data?.ItemsResult && !data?.SearchResult))) {
+    throw new PAAPIError(
+      apiError?.Message || `PA-API ${operation} failed with HTTP ${response.status}`,
+      apiError?.Code,
+      response.status
+    );
+  }
+  return data;
+};
+
+/**
+ * Stock status from an offer availability message ("In Stock", "Currently
+ * unavailable.", "Temporarily out of stock."). Undefined when unrecognised.
+ */
+export const classifyAvailability = (message?: string): StockStatus | undefined => {
+  const text = (message || '').toLowerCase();
+  if (!text) return undefined;
+  if (/discontinued|no longer (?:available|sold|manufactured)/.test(text)) return 'discontinued';
+  if (/out of stock|currently unavailable|not available|unavailable/.test(text)) return 'out_of_stock';
+  if (/in stock|available|ships|usually dispatched|pre-?order/.test(text)) return 'in_stock';
+  return undefined;
+};
+
+/**
+ * Maps a PA-API Item onto the product fields the boxes render.
+ */
+const mapPAAPIItem = (item: any): Partial<ProductDetails> => {
+  const listing = item?.Offers?.Listings?.[0];
+  const images = [
+    item?.Images?.Primary?.Large?.URL,
+    ...(item?.Images?.Variants || []).map((v: any) => v?.Large?.URL),
+  ].filter((u: unknown): u is string => typeof u === 'string' && u.length > 0);
+
+  return {
+    asin: item?.ASIN || '',
+    title: item?.ItemInfo?.Title?.DisplayValue || '',
+    brand: item?.ItemInfo?.ByLineInfo?.Brand?.DisplayValue || item?.ItemInfo?.ByLineInfo?.Manufacturer?.DisplayValue || '',
+    price: listing?.Price?.DisplayAmount || 'Check Price',
+    listPrice: listing?.SavingBasis?.DisplayAmount,
+    availability: listing?.Availability?.Message,
+    // Offers returned without a listing means nobody is selling it
+    stockStatus: listing ? classifyAvailability(listing.Availability?.Message) ?? 'in_stock' : item?.Offers ? 'out_of_stock' : undefined,
+    prime: !!listing?.DeliveryInfo?.IsPrimeEligible,
+    offerCount: item?.Offers?.Summaries?.[0]?.OfferCount,
+    imageUrl: images[0] || '',
+    images,
+    features: toCleanStringList(item?.ItemInfo?.Features?.DisplayValues, 8),
+    rating: item?.CustomerReviews?.StarRating?.Value,
+    reviewCount: item?.CustomerReviews?.Count,
+    detailPageUrl: item?.DetailPageURL,
+    dataSource: 'paapi',
+  };
+};
+
+/**
+ * ASINs a GetItems response rejected individually ("The ItemId B0… provided in
+ * the request is invalid", "…is not accessible through the Product Advertising
+ * API"), as opposed to errors about the request itself.
+ */
+const rejectedItemIds = (data: any, body: Record<string, unknown>): string[] => {
+  const requested = new Set((Array.isArray(body.ItemIds) ? body.ItemIds : []).map(id => String(id).toUpperCase()));
+  return (Array.isArray(data?.Errors) ? data.Errors : [])
+    .map((e: any) => (String(e?.Message || '').match(/\bItemId\s+([A-Z0-9]{10})\b/i) || [])[1]?.toUpperCase())
+    .filter((id: string | undefined): id is string => !!id && requested.has(id));
+};
+
+/**
+ * PA-API GetItems for up to 10 ASINs with the ASINs it rejected as unknown or
+ * inaccessible. Items come back in request order.
+ */
+export const paapiGetItemsWithRejections = async (
+  asins: string[],
+  credentials: PAAPICredentials,
+  signal?: AbortSignal
+): Promise<{ items: Partial<ProductDetails>[]; rejected: string[] }> => {
+  const body = { ItemIds: asins.slice(0, 10), ItemIdType: 'ASIN' };
+  const data = await callPAAPI(credentials, 'GetItems', body, signal);
+  return { items: (data?.ItemsResult?.Items || []).map(mapPAAPIItem), rejected: rejectedItemIds(data, body) };
+};
+
+/**
+ * PA-API GetItems for up to 10 ASINs, in request order. Unknown ASINs are omitted.
+ */
+export const paapiGetItems = async (
+  asins: string[],
+  credentials: PAAPICredentials,
+  signal?: AbortSignal
+): Promise<Partial<ProductDetails>[]> =>
+  (await paapiGetItemsWithRejections(asins, credentials, signal)).items;
+
+/**
+ * PA-API SearchItems across all categories.
+ */
+export const paapiSearchItems = async (
+  keywords: string,
+  credentials: PAAPICredentials,
+  itemCount = 1,
+  signal?: AbortSignal
+): Promise<Partial<ProductDetails>[]> => {
+  const data = await callPAAPI(credentials, 'SearchItems', { Keywords: keywords, SearchIndex: 'All', ItemCount: itemCount }, signal);
+  return (data?.SearchResult?.Items || []).map(mapPAAPIItem);
+};
+
+// ============================================================================
+// PRODUCT CANDIDATES - Match Scoring & Remembered Picks
+// ============================================================================
+
+const CANDIDATE_CHOICES_KEY = 'amzwp_candidate_choices_v1';
+const CANDIDATE_SEARCH_LIMIT = 5;
 
-  // Fallback: Split by paragraphs/headings if no WP blocks found
-  if (blocks.length < 2) {
-    return html
-      .split(/<\/p>|(?=<h[1-6]>)/i)
-      .filter(Boolean)
-      .map(s => (s.trim().endsWith('</p>') ? s : s + '</p>'));
+// Listings that are usually not the product itself, unless the query asks for them
+const CANDIDATE_ACCESSORY_REGEX = /\b(?:case|cover|sleeve|skin|protector|replacement|ear ?pads?|cushions?|cable|charger|adapter|stand|mount|holder|strap|compatible|renewed|refurbished)\b/gi;
+
+// Lowercase alphanumeric tokens; hyphens are dropped so "WH-1000XM5" matches "WH1000XM5"
+const tokenizeForMatch = (text: string): string[] =>
+  (text || '').toLowerCase().replace(/[-_./]/g, '').split(/[^a-z0-9]+/).filter(t => t.length > 1);
+
+/**
+ * 0-1 match of a listing title against a query. Model tokens (with digits)
+ * weigh three times a plain word; accessory or refurbished listings the query
+ * did not ask for, and a missing brand, are penalised.
+ */
+export const scoreProductCandidate = (query: string, title: string, brand?: string): number => {
+  const queryTokens = Array.from(new Set(tokenizeForMatch(query)));
+  const titleTokens = tokenizeForMatch(title);
+  if (queryTokens.length === 0 || titleTokens.length === 0) return 0;
+
+  let total = 0;
+  let matched = 0;
+  for (const token of queryTokens) {
+    const isModel = /\d/.test(token);
+    const weight = isModel ? 3 : 1;
+    total += weight;
+    // Model tokens also match a longer variant code ("wh1000xm5" in "wh1000xm5b")
+    if (titleTokens.some(t => t === token || (isModel && t.startsWith(token)))) matched += weight;
   }
 
-  return blocks;
+  let score = matched / total;
+  const queryText = query.toLowerCase();
+  const accessories = (title.match(CANDIDATE_ACCESSORY_REGEX) || []).filter(w => !queryText.includes(w.toLowerCase()));
+  if (accessories.length > 0) score *= 0.4;
+  const brandTokens = tokenizeForMatch(brand || '');
+  if (brandTokens.length > 0 && !brandTokens.every(t => titleTokens.includes(t))) score *= 0.6;
+  return Math.round(score * 100) / 100;
 };
 
-export const insertIntoContent = (
-  html: string, 
-  products: ProductDetails[], 
-  config: AppConfig
-): string => {
-  // Clean existing product boxes
-  let clean = (html || '').replace(
-    /<!-- wp:html -->[\s\S]*?<!-- \/wp:html -->/g,
-    (match) => {
-      const isProductBox = /s-box|t-link-box|comp-table|auth-v|tact-v/i.test(match);
-      return isProductBox ? '' : match;
+/**
+ * The highest-scoring hit for the query; ties keep the source's ranking.
+ */
+const pickBestCandidate = (query: string, items: Partial<ProductDetails>[]): Partial<ProductDetails> | null => {
+  let best: Partial<ProductDetails> | null = null;
+  let bestScore = -1;
+  for (const item of items) {
+    if (!item.asin) continue;
+    const score = scoreProductCandidate(query, item.title || '');
+    if (score > bestScore) {
+      best = item;
+      bestScore = score;
     }
-  );
-
-  const blocks = splitContentIntoBlocks(clean);
-  const output = [...blocks];
+  }
+  return best;
+};
 
-  // Sort products by insertion index (descending to preserve indices)
-  const sorted = [...products]
-    .filter(p => p.insertionIndex !== -1)
-    .sort((a, b) => b.insertionIndex - a.insertionIndex);
+const candidateChoiceKey = (query: string, marketplace: AmazonMarketplace): string =>
+  `${marketplace}:${query.trim().toLowerCase().replace(/\s+/g, ' ')}`;
 
-  for (const product of sorted) {
-    const box = generateProductBoxHtml(product, config.amazonTag, product.deploymentMode);
-    output.splice(Math.min(product.insertionIndex, output.length), 0, box);
+const getCandidateChoices = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(CANDIDATE_CHOICES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
   }
+};
 
-  return output.join('\n\n');
+/**
+ * ASIN picked for this keyword query in this store, if any.
+ */
+export const getRememberedCandidate = (query: string, marketplace: AmazonMarketplace): string | null =>
+  getCandidateChoices()[candidateChoiceKey(query, marketplace)] || null;
+
+export const rememberCandidateChoice = (query: string, asin: string, marketplace: AmazonMarketplace): void => {
+  const choices = getCandidateChoices();
+  choices[candidateChoiceKey(query, marketplace)] = asin.toUpperCase();
+  try {
+    localStorage.setItem(CANDIDATE_CHOICES_KEY, JSON.stringify(choices));
+  } catch (e) {
+    console.warn('[Candidates] Failed to persist choice:', e);
+  }
 };
 
 // ============================================================================
-// AMAZON PRODUCT SEARCH
+// PRODUCT DATA SOURCES - Lookup Fallback Chain
 // ============================================================================
 
-export const searchAmazonProduct = async (
-  query: string, 
-  apiKey: string
-): Promise<Partial<ProductDetails>> => {
-  if (!apiKey) {
-    return { title: query, price: 'Check Price' };
-  }
+const PRODUCT_CATALOG_KEY = 'amzwp_product_catalog_v1';
 
-  // Check cache first
-  const productsCache = IntelligenceCache.getProducts();
-  const existing = Object.values(productsCache).find(
-    p =>
-      p.title.toLowerCase().includes(query.toLowerCase()) ||
-      query.toLowerCase().includes(p.title.toLowerCase())
-  );
+/**
+ * One place product data can come from. `lookup` resolves an ASIN or keyword
+ * query in the given store, or returns null when it has nothing. `search`
+ * lists keyword hits for the candidate picker.
+ */
+export interface ProductDataSource {
+  id: ProductDataSourceId;
+  label: string;
+  isConfigured: (config: AppConfig) => boolean;
+  lookup: (query: string, config: AppConfig, marketplace: MarketplaceInfo, signal?: AbortSignal) => Promise<Partial<ProductDetails> | null>;
+  search?: (query: string, config: AppConfig, marketplace: MarketplaceInfo, limit: number) => Promise<Partial<ProductDetails>[]>;
+}
+
+export const DEFAULT_PRODUCT_SOURCES: ProductDataSourceId[] = ['cache', 'paapi', 'serpapi', 'catalog'];
+
+// Fields a lookup fills in; each is credited to the first source that had it
+const SOURCED_FIELDS: (keyof ProductDetails)[] = [
+  'asin', 'title', 'brand', 'price', 'listPrice', 'imageUrl', 'images', 'rating', 'reviewCount',
+  'prime', 'availability', 'stockStatus', 'offerCount', 'features', 'detailPageUrl',
+];
+
+// A lookup stops once these are filled; later sources only fill gaps
+const REQUIRED_SOURCED_FIELDS: (keyof ProductDetails)[] = ['asin', 'title', 'price', 'imageUrl'];
+
+const hasSourcedValue = (field: keyof ProductDetails, value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (field === 'price') return value !== 'Check Price';
+  if (field === 'imageUrl') return !String(value).includes('placeholder');
+  return true;
+};
 
-  if (existing?.imageUrl && !existing.imageUrl.includes('placeholder')) {
-    return existing;
+/** Copies one field's value onto a product without widening its type. */
+const assignField = <T extends Partial<ProductDetails>, K extends keyof T>(target: T, field: K, value: T[K]): void => {
+  target[field] = value;
+};
+
+export const getProductCatalog = (): CatalogProduct[] => {
+  try {
+    const raw = localStorage.getItem(PRODUCT_CATALOG_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
   }
+};
 
+export const saveProductCatalog = (products: CatalogProduct[]): void => {
   try {
-    // Search for product
-    const serpApiUrl = `https://serpapi.com/search.json?engine=amazon&k=${encodeURIComponent(query)}&api_key=${apiKey}`;
-    const searchResponse = await fetchWithProxy(serpApiUrl);
-    const searchData = JSON.parse(searchResponse);
+    localStorage.setItem(PRODUCT_CATALOG_KEY, JSON.stringify(products));
+  } catch (e) {
+    console.warn('[Catalog] Failed to persist product catalog:', e);
+  }
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells, escaped quotes
+ * and newlines inside quotes.
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim())) rows.push(row);
+  return rows;
+};
+
+const CATALOG_COLUMNS: Record<string, keyof CatalogProduct> = {
+  asin: 'asin',
+  title: 'title', name: 'title',
+  brand: 'brand',
+  category: 'category',
+  price: 'price',
+  image: 'imageUrl', imageurl: 'imageUrl', image_url: 'imageUrl',
+  rating: 'rating',
+  reviews: 'reviewCount', reviewcount: 'reviewCount', review_count: 'reviewCount',
+  availability: 'availability', stock: 'availability',
+  url: 'detailPageUrl', detailpageurl: 'detailPageUrl',
+  marketplace: 'marketplace', store: 'marketplace',
+};
+
+/**
+ * Parses a catalog CSV with a header row. Needs asin and title (or name)
+ * columns; rows without a valid ASIN or title are skipped.
+ */
+export const parseProductCatalogCsv = (text: string): { products: CatalogProduct[]; skipped: number } => {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = (header || []).map(h => CATALOG_COLUMNS[h.trim().toLowerCase()]);
+  if (!columns.includes('asin') || !columns.includes('title')) {
+    throw new ValidationError('Catalog CSV needs a header row with asin and title columns', 'productCatalog');
+  }
+
+  const products: CatalogProduct[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const entry: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const value = (row[i] || '').trim();
+      if (!column || !value) return;
+      if (column === 'rating' || column === 'reviewCount') {
+        const n = parseFloat(value.replace(/,/g, ''));
+        if (Number.isFinite(n)) entry[column] = n;
+      } else if (column === 'asin' || column === 'marketplace') {
+        entry[column] = value.toUpperCase();
+      } else {
+        entry[column] = value;
+      }
+    });
+
+    const product = entry as unknown as CatalogProduct;
+    if (!ASIN_REGEX.test(product.asin || '') || !product.title) {
+      skipped++;
+      continue;
+    }
+    if (product.marketplace && !MARKETPLACES[product.marketplace]) delete product.marketplace;
+    products.push(product);
+  }
+  return { products, skipped };
+};
+
+const cacheSource: ProductDataSource = {
+  id: 'cache',
+  label: 'Cache',
+  isConfigured: () => true,
+  lookup: async (query, _config, marketplace) => findCachedAmazonProduct(query, marketplace.id),
+};
+
+const isAsinQuery = (query: string): boolean => ASIN_REGEX.test(query.trim().toUpperCase());
+
+const paapiSource: ProductDataSource = {
+  id: 'paapi',
+  label: 'PA-API',
+  isConfigured: config => getPAAPICredentials(config) !== null,
+  lookup: async (query, config, marketplace, signal) => {
+    const paapi = getPAAPICredentials(config, marketplace);
+    if (!paapi) return null;
+    if (isAsinQuery(query)) {
+      return (await paapiGetItems([query.trim().toUpperCase()], paapi, signal))[0] || null;
+    }
+    return pickBestCandidate(query, await paapiSearchItems(query, paapi, CANDIDATE_SEARCH_LIMIT, signal));
+  },
+  search: async (query, config, marketplace, limit) => {
+    const paapi = getPAAPICredentials(config, marketplace);
+    return paapi ? paapiSearchItems(query, paapi, limit) : [];
+  },
+};
 
-    const firstResult = searchData.organic_results?.find((r: any) => r.asin) || 
-                        searchData.organic_results?.[0];
+const serpApiSearch = async (
+  query: string,
+  config: AppConfig,
+  marketplace: MarketplaceInfo,
+  signal?: AbortSignal
+): Promise<any[]> => {
+  const serpApiUrl = `https://serpapi.com/search.json?engine=amazon&amazon_domain=${marketplace.domain}&k=${encodeURIComponent(query)}&api_key=${config.serpApiKey || ''}`;
+  const searchData = JSON.parse(await fetchWithProxy(serpApiUrl, undefined, { signal }));
+  return (searchData.organic_results || []).filter((r: any) => r.asin);
+};
 
-    if (!firstResult?.asin) {
-      return { title: query };
+const mapSerpApiSearchResult = (r: any, marketplace: MarketplaceInfo): Partial<ProductDetails> => ({
+  asin: r.asin,
+  title: r.title,
+  price: formatMarketplacePrice(r.price || r.extracted_price, marketplace) || undefined,
+  imageUrl: r.thumbnail,
+  rating: r.rating,
+  reviewCount: r.reviews,
+  prime: !!r.prime,
+});
+
+const serpApiSource: ProductDataSource = {
+  id: 'serpapi',
+  label: 'SerpApi',
+  isConfigured: config => !!config.serpApiKey,
+  lookup: async (query, config, marketplace, signal) => {
+    // Keyword queries pick the best-scored search hit; ASINs go straight to the product page
+    let hit: any = null;
+    if (!isAsinQuery(query)) {
+      const results = await serpApiSearch(query, config, marketplace, signal);
+      const best = pickBestCandidate(query, results.slice(0, CANDIDATE_SEARCH_LIMIT).map(r => mapSerpApiSearchResult(r, marketplace)));
+      hit = best && results.find(r => r.asin === best.asin);
+      if (!hit) return null;
     }
+    const asin = hit?.asin || query.trim().toUpperCase();
 
     // Get product details
-    const productApiUrl = `https://serpapi.com/search.json?engine=amazon_product&asin=${firstResult.asin}&api_key=${apiKey}`;
-    const detailResponse = await fetchWithProxy(productApiUrl);
+    const productApiUrl = `https://serpapi.com/search.json?engine=amazon_product&amazon_domain=${marketplace.domain}&asin=${asin}&api_key=${config.serpApiKey || ''}`;
+    const detailResponse = await fetchWithProxy(productApiUrl, undefined, { signal });
     const detailData = JSON.parse(detailResponse);
 
     const product = detailData.product_results || {};
+    if (!hit && !product.asin && !product.title) return null;
 
     // Extract best image
     let finalImage = '';
@@ -1805,35 +4926,682 @@ export const searchAmazonProduct = async (
     } else if (product.main_image?.link) {
       finalImage = product.main_image.link;
     } else {
-      finalImage = firstResult.thumbnail || '';
+      finalImage = hit?.thumbnail || '';
+    }
+
+    // Upgrade image quality
+    if (finalImage) {
+      finalImage = finalImage.replace(/\._AC_.*_\./, '._AC_SL1500_.');
+    }
+
+    return {
+      asin: product.asin || asin,
+      title: product.title || hit?.title,
+      brand: product.brand || '',
+      price: formatMarketplacePrice(product.price || hit?.price || hit?.extracted_price, marketplace) || 'Check Price',
+      imageUrl: finalImage,
+      rating: product.rating || hit?.rating,
+      reviewCount: product.reviews_count || hit?.reviews_count,
+      prime: product.prime || hit?.prime || false,
+      availability: product.stock || product.availability,
+      stockStatus: classifyAvailability(product.stock || product.availability),
+    };
+  },
+  search: async (query, config, marketplace, limit) =>
+    (await serpApiSearch(query, config, marketplace)).slice(0, limit).map(r => mapSerpApiSearchResult(r, marketplace)),
+};
+
+const toCatalogProduct = (entry: CatalogProduct, marketplace: MarketplaceInfo): Partial<ProductDetails> => {
+  const { marketplace: _store, price, availability, ...rest } = entry;
+  return {
+    ...rest,
+    price: price ? formatMarketplacePrice(price, marketplace) : undefined,
+    availability,
+    stockStatus: classifyAvailability(availability),
+    images: entry.imageUrl ? [entry.imageUrl] : undefined,
+  };
+};
+
+// Catalog rows whose title contains the query (or vice versa) or shares most of its tokens
+const searchCatalog = (query: string, marketplace: MarketplaceInfo): CatalogProduct[] => {
+  const q = query.trim().toLowerCase();
+  return getProductCatalog().filter(p =>
+    (!p.marketplace || p.marketplace === marketplace.id) && (
+      q.includes(p.title.toLowerCase()) ||
+      p.title.toLowerCase().includes(q) ||
+      scoreProductCandidate(query, p.title, p.brand) >= 0.5
+    )
+  );
+};
+
+const catalogSource: ProductDataSource = {
+  id: 'catalog',
+  label: 'Catalog',
+  isConfigured: () => getProductCatalog().length > 0,
+  lookup: async (query, _config, marketplace) => {
+    if (isAsinQuery(query)) {
+      const match = getProductCatalog().find(p =>
+        p.asin === query.trim().toUpperCase() && (!p.marketplace || p.marketplace === marketplace.id)
+      );
+      return match ? toCatalogProduct(match, marketplace) : null;
+    }
+    return pickBestCandidate(query, searchCatalog(query, marketplace).map(p => toCatalogProduct(p, marketplace)));
+  },
+  // Unranked; the picker scores and trims
+  search: async (query, _config, marketplace, _limit) =>
+    searchCatalog(query, marketplace).map(p => toCatalogProduct(p, marketplace)),
+};
+
+export const PRODUCT_DATA_SOURCES: Record<ProductDataSourceId, ProductDataSource> = {
+  cache: cacheSource,
+  paapi: paapiSource,
+  serpapi: serpApiSource,
+  catalog: catalogSource,
+};
+
+/**
+ * Enabled sources in priority order, configured or not.
+ */
+export const getProductSourceOrder = (config: AppConfig): ProductDataSourceId[] =>
+  (config.productSources || DEFAULT_PRODUCT_SOURCES).filter(id => PRODUCT_DATA_SOURCES[id]);
+
+// ============================================================================
+// AMAZON PRODUCT SEARCH
+// ============================================================================
+
+/**
+ * A previously looked-up product matching the query in the given store, if it
+ * has a real image.
+ */
+export const findCachedAmazonProduct = (query: string, marketplace: AmazonMarketplace = 'US'): ProductDetails | null => {
+  const productsCache = IntelligenceCache.getProducts();
+  const existing = Object.values(productsCache).find(
+    p =>
+      (p.marketplace || 'US') === marketplace && (
+        p.asin === query.toUpperCase() ||
+        p.title.toLowerCase().includes(query.toLowerCase()) ||
+        query.toLowerCase().includes(p.title.toLowerCase())
+      )
+  );
+
+  return existing?.imageUrl && !existing.imageUrl.includes('placeholder') ? existing : null;
+};
+
+/**
+ * True when at least one enabled source can return data beyond the cache.
+ */
+export const hasAmazonLookup = (config: AppConfig): boolean =>
+  getProductSourceOrder(config).some(id => id !== 'cache' && PRODUCT_DATA_SOURCES[id].isConfigured(config));
+
+/**
+ * Looks up a product by ASIN or keywords through the enabled sources in
+ * priority order. The first match fixes the ASIN; later sources are asked for
+ * that ASIN and only fill fields still missing. `fieldSources` records where
+ * each field came from. `fresh` skips the cache source (the result is still
+ * cached). `signal` aborts the source requests, e.g. for a cancelled scan.
+ */
+export const searchAmazonProduct = async (
+  query: string, 
+  config: AppConfig,
+  options: { fresh?: boolean; signal?: AbortSignal } = {}
+): Promise<Partial<ProductDetails>> => {
+  const marketplace = resolveMarketplace(config);
+  const sources = getProductSourceOrder(config)
+    .filter(id => !(options.fresh && id === 'cache'))
+    .map(id => PRODUCT_DATA_SOURCES[id])
+    .filter(source => source.isConfigured(config));
+
+  const result: Partial<ProductDetails> = {};
+  const fieldSources: NonNullable<ProductDetails['fieldSources']> = {};
+  // A keyword query the editor already resolved by hand goes straight to the picked ASIN
+  const queryAsin = isAsinQuery(query) ? query.trim().toUpperCase() : getRememberedCandidate(query, marketplace.id) || '';
+
+  for (const source of sources) {
+    if (options.signal?.aborted) break;
+    const wanted = result.asin?.toUpperCase() || queryAsin;
+    let found: Partial<ProductDetails> | null = null;
+    try {
+      found = await source.lookup(wanted || query, config, marketplace, options.signal);
+    } catch (error) {
+      console.warn(`[searchAmazonProduct] ${source.label} lookup failed for "${wanted || query}":`, error);
+    }
+    // Keyword fallbacks can surface a different product; only the wanted ASIN counts
+    if (!found?.asin || (wanted && found.asin.toUpperCase() !== wanted)) continue;
+
+    // A cache hit is already a merged result
+    if (source.id === 'cache' && !result.asin) {
+      return found;
+    }
+
+    result.dataSource = result.dataSource || source.id;
+    for (const field of SOURCED_FIELDS) {
+      if (hasSourcedValue(field, result[field]) || !hasSourcedValue(field, found[field])) continue;
+      assignField(result, field, found[field]);
+      fieldSources[field] = source.id;
+    }
+    if (REQUIRED_SOURCED_FIELDS.every(field => hasSourcedValue(field, result[field]))) break;
+  }
+
+  if (!result.asin) {
+    return { title: query, price: 'Check Price' };
+  }
+
+  const product: Partial<ProductDetails> = {
+    ...result,
+    price: result.price || 'Check Price',
+    marketplace: marketplace.id,
+    fieldSources,
+  };
+  IntelligenceCache.setProduct(product.asin!, product as ProductDetails);
+  return product;
+};
+
+/**
+ * Top keyword hits from the first enabled source that returns any, scored
+ * against the query (and brand, when known), best first.
+ */
+export const searchAmazonCandidates = async (
+  query: string,
+  config: AppConfig,
+  brand?: string,
+  limit = CANDIDATE_SEARCH_LIMIT
+): Promise<ProductCandidate[]> => {
+  const marketplace = resolveMarketplace(config);
+  for (const id of getProductSourceOrder(config)) {
+    const source = PRODUCT_DATA_SOURCES[id];
+    if (!source.search || !source.isConfigured(config)) continue;
+
+    let items: Partial<ProductDetails>[] = [];
+    try {
+      items = await source.search(query, config, marketplace, limit);
+    } catch (error) {
+      console.warn(`[Candidates] ${source.label} search failed for "${query}":`, error);
+    }
+
+    const candidates = items
+      .filter(item => item.asin && item.title)
+      .map((item): ProductCandidate => ({
+        asin: item.asin!.toUpperCase(),
+        title: item.title!,
+        brand: item.brand,
+        price: item.price,
+        imageUrl: item.imageUrl,
+        rating: item.rating,
+        reviewCount: item.reviewCount,
+        source: id,
+        score: scoreProductCandidate(query, item.title!, brand),
+      }))
+      .sort((a, b) => b.score - a.score);
+    if (candidates.length > 0) return candidates.slice(0, limit);
+  }
+  return [];
+};
+
+/**
+ * Re-resolves a product to a picked candidate: remembers the pick for its
+ * query, then replaces the looked-up fields. Editorial copy and placement stay.
+ */
+export const applyCandidateChoice = async (
+  product: ProductDetails,
+  candidate: ProductCandidate,
+  config: AppConfig
+): Promise<ProductDetails> => {
+  const marketplace = resolveMarketplace(config);
+  const query = product.lookupQuery || product.title;
+  const amz = await searchAmazonProduct(candidate.asin, config);
+  if (!amz.asin) {
+    throw new ValidationError(`No product data found for ${candidate.asin}`, 'asin');
+  }
+  rememberCandidateChoice(query, amz.asin, marketplace.id);
+
+  const looked = createProductFromLookup(amz, {
+    title: candidate.title,
+    brand: product.brand,
+    category: product.category,
+    verdict: product.verdict,
+    language: product.language,
+    marketplace: marketplace.id,
+  });
+  const updated: ProductDetails = {
+    ...product,
+    dataSource: looked.dataSource,
+    fieldSources: looked.fieldSources,
+    marketplace: looked.marketplace,
+    geoAvailability: undefined, // Checked for the previous ASIN
+    lookupQuery: query,
+  };
+  SOURCED_FIELDS.forEach(field => {
+    assignField(updated, field, looked[field]);
+  });
+  return updated;
+};
+
+/**
+ * Records, for each geo-target store, whether the products' ASINs are listed
+ * there. Stores that could not be checked are left unset so their links stay.
+ */
+export const checkGeoAvailability = async (
+  products: ProductDetails[],
+  config: AppConfig,
+  signal?: AbortSignal
+): Promise<void> => {
+  const home = resolveMarketplace(config).id;
+  const storeTags = new Map<AmazonMarketplace, string>();
+  (config.geoTargets || []).forEach(t => {
+    if (t.marketplace !== home && MARKETPLACES[t.marketplace] && t.tag?.trim() && !storeTags.has(t.marketplace)) {
+      storeTags.set(t.marketplace, t.tag.trim());
+    }
+  });
+  const asins = Array.from(new Set(products.map(p => (p.asin || '').toUpperCase()).filter(a => ASIN_REGEX.test(a))));
+  if (storeTags.size === 0 || asins.length === 0) return;
+
+  for (const [id, tag] of storeTags) {
+    if (signal?.aborted) return;
+    const marketplace = getMarketplace(id);
+    const listed = new Map<string, boolean>();
+
+    const paapi = getPAAPICredentials(config, marketplace);
+    if (paapi) {
+      for (let i = 0; i < asins.length; i += 10) {
+        if (signal?.aborted) return;
+        const batch = asins.slice(i, i + 10);
+        try {
+          // ASINs rejected one by one are unlisted here; a failed request leaves the batch to SerpApi
+          const { items, rejected } = await paapiGetItemsWithRejections(batch, { ...paapi, partnerTag: tag }, signal);
+          const found = new Set(items.map(item => item.asin?.toUpperCase()));
+          batch.forEach(asin => {
+            if (found.has(asin)) listed.set(asin, true);
+            else if (rejected.includes(asin)) listed.set(asin, false);
+          });
+        } catch (error) {
+          console.warn(`[GEO] PA-API availability check failed for ${marketplace.domain}:`, error);
+        }
+      }
+    }
+
+    if (config.serpApiKey) {
+      for (const asin of asins.filter(a => !listed.has(a))) {
+        if (signal?.aborted) return;
+        try {
+          const url = `https://serpapi.com/search.json?engine=amazon_product&amazon_domain=${marketplace.domain}&asin=${asin}&api_key=${config.serpApiKey}`;
+          const data = JSON.parse(await fetchWithProxy(url, undefined, { signal }));
+          listed.set(asin, !!(data?.product_results?.asin || data?.product_results?.title));
+        } catch (error) {
+          console.warn(`[GEO] SerpApi availability check failed for ${asin} on ${marketplace.domain}:`, error);
+        }
+      }
+    }
+
+    products.forEach(p => {
+      const status = listed.get((p.asin || '').toUpperCase());
+      if (status !== undefined) p.geoAvailability = { ...p.geoAvailability, [id]: status };
+    });
+    console.log(`[GEO] ${marketplace.domain}: ${Array.from(listed.values()).filter(Boolean).length}/${listed.size} ASINs listed`);
+  }
+};
+
+// ============================================================================
+// ALTERNATIVE PICKS - Budget & Upgrade Suggestions For Single-Product Posts
+// ============================================================================
+
+export interface AlternativeSuggestion {
+  role: 'budget' | 'upgrade';
+  productName: string;
+  brand: string;
+  reason: string;
+}
+
+const validateAlternativesResponse = (raw: unknown): SchemaResult<AlternativeSuggestion[]> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['root: expected a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const value: AlternativeSuggestion[] = [];
+  (['budget', 'upgrade'] as const).forEach(role => {
+    const entry = (raw as Record<string, unknown>)[role];
+    if (entry === null || entry === undefined) return; // Model found no sensible pick
+    if (typeof entry !== 'object') {
+      errors.push(`${role}: expected an object or null`);
+      return;
+    }
+    const pick = entry as Record<string, unknown>;
+    if (!isNonEmptyString(pick.productName)) errors.push(`${role}.productName: must be a non-empty string`);
+    if (typeof pick.brand !== 'string') errors.push(`${role}.brand: must be a string`);
+    if (!isNonEmptyString(pick.reason)) errors.push(`${role}.reason: must be a non-empty string`);
+    value.push({
+      role,
+      productName: String(pick.productName || '').trim(),
+      brand: String(pick.brand || '').trim(),
+      reason: String(pick.reason || '').trim(),
+    });
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+};
+
+/**
+ * Builds a stageable product from an Amazon lookup, falling back to the
+ * suggested name and brand when the lookup found nothing.
+ */
+const createProductFromLookup = (
+  amz: Partial<ProductDetails>,
+  fallback: Pick<ProductDetails, 'title' | 'brand' | 'category' | 'verdict' | 'language' | 'marketplace'>
+): ProductDetails => ({
+  id: crypto.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+  asin: amz.asin || '',
+  title: (amz.title || fallback.title).substring(0, 80),
+  brand: amz.brand || fallback.brand,
+  category: fallback.category,
+  price: amz.price || 'Check Price',
+  imageUrl: amz.imageUrl,
+  rating: amz.rating,
+  reviewCount: amz.reviewCount,
+  prime: amz.prime,
+  listPrice: amz.listPrice,
+  availability: amz.availability,
+  stockStatus: amz.stockStatus,
+  offerCount: amz.offerCount,
+  images: amz.images,
+  features: amz.features,
+  detailPageUrl: amz.detailPageUrl,
+  dataSource: amz.dataSource,
+  fieldSources: amz.fieldSources,
+  marketplace: amz.marketplace || fallback.marketplace,
+  verdict: fallback.verdict,
+  pros: [],
+  cons: [],
+  evidenceClaims: [],
+  faqs: [],
+  entities: [],
+  specs: {},
+  insertionIndex: -1,
+  language: fallback.language,
+  deploymentMode: 'ELITE_BENTO',
+});
+
+/**
+ * Proposes a cheaper and a premium alternative to a product, resolves each
+ * through the Amazon lookup and returns ready-to-place entries tagged with a
+ * role. Picks whose real price contradicts their role are dropped.
+ */
+export const suggestAlternativePicks = async (
+  product: ProductDetails,
+  config: AppConfig
+): Promise<ProductDetails[]> => {
+  const apiKey = requireAIApiKey(config);
+  assertAIBudget(config);
+
+  const systemPrompt = `You are an affiliate editor adding alternatives to a single-product review.
+
+Suggest two real products currently sold on Amazon, in the SAME category as the reviewed product:
+- budget: noticeably cheaper, still a sensible buy for most readers.
+- upgrade: noticeably better and more expensive, for readers who want more.
+
+RULES:
+1. Use exact, searchable model names. Never suggest the reviewed product itself.
+2. reason: one or two sentences on who should pick it over the reviewed product. No invented statistics, awards or warranties.
+3. Use null for a pick when no sensible product exists.
+
+Return JSON: {"budget": {"productName": "...", "brand": "...", "reason": "..."}, "upgrade": {"productName": "...", "brand": "...", "reason": "..."}}${languageInstruction(product.language)}`;
+
+  const userPrompt = `REVIEWED PRODUCT:
+- Title: ${product.title}
+- Brand: ${product.brand || 'unknown'}
+- Category: ${product.category || 'unknown'}
+- Price: ${product.price}`;
+
+  const suggestions = await generateValidatedAIContent(
+    config,
+    apiKey,
+    { systemPrompt, userPrompt, purpose: 'alternatives' },
+    validateAlternativesResponse
+  );
+
+  const basePrice = parsePriceValue(product.price);
+  const picks: ProductDetails[] = [];
+
+  for (const suggestion of suggestions) {
+    const query = suggestion.productName.toLowerCase().startsWith(suggestion.brand.toLowerCase())
+      ? suggestion.productName
+      : `${suggestion.brand} ${suggestion.productName}`.trim();
+    const amz = await searchAmazonProduct(query, config);
+
+    if (!amz.asin) {
+      console.warn(`[ALTERNATIVES] ${suggestion.role} pick "${query}" not found on Amazon, skipping`);
+      continue;
+    }
+    if (amz.asin === product.asin) {
+      console.warn(`[ALTERNATIVES] ${suggestion.role} pick resolved to the reviewed product, skipping`);
+      continue;
+    }
+
+    const price = parsePriceValue(amz.price);
+    if (basePrice !== null && price !== null) {
+      const contradicts = suggestion.role === 'budget' ? price >= basePrice : price <= basePrice;
+      if (contradicts) {
+        console.warn(`[ALTERNATIVES] ${suggestion.role} pick "${amz.title}" at ${amz.price} contradicts base price ${product.price}, skipping`);
+        continue;
+      }
+    }
+
+    picks.push({
+      ...createProductFromLookup(amz, {
+        title: query,
+        brand: suggestion.brand,
+        category: product.category,
+        verdict: suggestion.reason,
+        language: product.language,
+        marketplace: resolveMarketplace(config).id,
+      }),
+      lookupQuery: query,
+      sourceBlockIndex: product.sourceBlockIndex,
+      recommendedBlockIndex: product.recommendedBlockIndex, // Lands right after the primary box
+      role: suggestion.role,
+      alternativeFor: product.id,
+      deploymentMode: 'TACTICAL_LINK',
+    });
+  }
+
+  return picks;
+};
+
+// ============================================================================
+// CONTENT GAP ANALYSIS - Missing Sections & Products Per Post
+// ============================================================================
+
+export interface ContentGapSection {
+  heading: string;
+  reason: string;
+  paragraphs: string[];
+  afterBlockIndex: number; // Insert after this block of the analyzed list
+}
+
+export interface ContentGapProduct {
+  productName: string;
+  brand: string;
+  reason: string;
+}
+
+export interface ContentGapReport {
+  category: string;
+  sections: ContentGapSection[];
+  products: ContentGapProduct[];
+}
+
+const createGapValidator = (blockCount: number) =>
+  (raw: unknown): SchemaResult<ContentGapReport> => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return { ok: false, errors: ['root: expected a JSON object'] };
+    }
+
+    const r = raw as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof r.category !== 'string') errors.push('category: must be a string');
+    if (!Array.isArray(r.sections)) errors.push('sections: expected an array');
+    if (!Array.isArray(r.products)) errors.push('products: expected an array');
+    if (typeof r.category !== 'string' || !Array.isArray(r.sections) || !Array.isArray(r.products)) {
+      return { ok: false, errors };
     }
 
-    // Upgrade image quality
-    if (finalImage) {
-      finalImage = finalImage.replace(/\._AC_.*_\./, '._AC_SL1500_.');
-    }
+    const sections: ContentGapSection[] = [];
+    r.sections.forEach((item: unknown, i: number) => {
+      const at = `sections[${i}]`;
+      const sec = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      if (!isNonEmptyString(sec.heading)) {
+        errors.push(`${at}.heading: must be a non-empty string`);
+        return;
+      }
+      const paragraphs = toCleanStringList(sec.paragraphs, 3);
+      if (paragraphs.length === 0) errors.push(`${at}.paragraphs: expected 1-3 non-empty strings`);
+      const afterBlockIndex = typeof sec.afterBlockIndex === 'number' ? sec.afterBlockIndex : NaN;
+      if (!Number.isInteger(afterBlockIndex) || afterBlockIndex < 0 || afterBlockIndex >= blockCount) {
+        errors.push(`${at}.afterBlockIndex: must be an integer between 0 and ${blockCount - 1}`);
+      }
+      sections.push({ heading: sec.heading.trim(), reason: String(sec.reason || '').trim(), paragraphs, afterBlockIndex });
+    });
+
+    const products: ContentGapProduct[] = [];
+    r.products.forEach((item: unknown, i: number) => {
+      const p = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+      if (!isNonEmptyString(p.productName)) {
+        errors.push(`products[${i}].productName: must be a non-empty string`);
+        return;
+      }
+      products.push({ productName: p.productName.trim(), brand: String(p.brand || '').trim(), reason: String(p.reason || '').trim() });
+    });
 
-    const result: Partial<ProductDetails> = {
-      asin: product.asin || firstResult.asin,
-      title: product.title || firstResult.title,
-      brand: product.brand || '',
-      price: product.price || firstResult.price || 'Check Price',
-      imageUrl: finalImage,
-      rating: product.rating || firstResult.rating || 4.9,
-      reviewCount: product.reviews_count || firstResult.reviews_count || 1000,
-      prime: product.prime || firstResult.prime || false,
-    };
+    return errors.length > 0
+      ? { ok: false, errors }
+      : { ok: true, value: { category: r.category.trim(), sections: sections.slice(0, 5), products: products.slice(0, 5) } };
+  };
 
-    // Cache the result
-    if (result.asin) {
-      IntelligenceCache.setProduct(result.asin, result as ProductDetails);
-    }
+/**
+ * "[#N] H2: text" lines for every heading block, so the model sees the
+ * post structure without the full body.
+ */
+const buildHeadingOutline = (blocks: string[]): string => {
+  return blocks
+    .map((block, i) => {
+      const match = block.match(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/i);
+      return match ? `[#${i}] H${match[1]}: ${htmlToPlainText(match[2])}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
+};
 
-    return result;
-  } catch (error) {
-    console.warn(`[searchAmazonProduct] Lookup failed for "${query}":`, error);
-    return { title: query, price: 'Check Price' };
+/**
+ * Compares a post's headings and detected products against what a complete
+ * article in its category covers. Returns draft sections (with an insertion
+ * block) and products worth adding.
+ */
+export const analyzeContentGaps = async (
+  title: string,
+  blocks: string[],
+  products: ProductDetails[],
+  config: AppConfig,
+  categoryHints: string[] = []
+): Promise<ContentGapReport> => {
+  const apiKey = requireAIApiKey(config);
+  assertAIBudget(config);
+
+  const plainText = htmlToPlainText(blocks.join(' '));
+  const language = products[0]?.language || resolveContentLanguage(config, plainText);
+
+  const systemPrompt = `You are an affiliate content strategist auditing one article for gaps.
+
+1. Decide the article's product category.
+2. Compare its headings and covered products against what a complete, trustworthy article on this topic in that category includes.
+3. sections: up to 4 missing sections (e.g. a comparison, buying criteria, a product type the list never covers). For each give a heading, a one-sentence reason, 1-3 draft paragraphs in the article's voice, and afterBlockIndex: the block it should follow.
+4. products: up to 5 specific, real products (exact model names) that fill a coverage gap and are not already covered. Give each a one-sentence reason.
+5. Never invent statistics, prices, awards or test results in drafts.
+
+Return JSON: {"category": "...", "sections": [{"heading": "...", "reason": "...", "paragraphs": ["..."], "afterBlockIndex": 4}], "products": [{"productName": "...", "brand": "...", "reason": "..."}]}${languageInstruction(language)}`;
+
+  const covered = products
+    .map(p => `- ${p.title}${p.category ? ` (${p.category})` : ''}`)
+    .join('\n');
+  const entities = Array.from(new Set(products.flatMap(p => p.entities || []))).slice(0, 20);
+
+  const userPrompt = `ARTICLE TITLE: "${title}"
+${categoryHints.length > 0 ? `CATEGORY HINTS: ${categoryHints.join(', ')}\n` : ''}
+HEADINGS:
+${buildHeadingOutline(blocks) || '(no headings)'}
+
+PRODUCTS ALREADY COVERED:
+${covered || '(none detected)'}
+${entities.length > 0 ? `\nENTITIES: ${entities.join(', ')}\n` : ''}
+BLOCKS:
+${buildBlockOutline(blocks)}`;
+
+  return generateValidatedAIContent(
+    config,
+    apiKey,
+    { systemPrompt, userPrompt, purpose: 'content-gap' },
+    createGapValidator(blocks.length)
+  );
+};
+
+/**
+ * Renders a suggested section as an HTML node body. Draft text is escaped;
+ * the model never supplies markup.
+ */
+export const renderGapSectionHtml = (section: ContentGapSection): string => {
+  return `<h2>${escapeHtml(section.heading)}</h2>\n${section.paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join('\n')}`;
+};
+
+/**
+ * Runs a drafted section through the claim linter before it goes into the
+ * post. Facts are checked against the post's products; flagged sentences are
+ * softened, or dropped when softening cannot clear them.
+ */
+export const fixSectionClaims = (
+  section: ContentGapSection,
+  products: ProductDetails[]
+): { section: ContentGapSection; flagged: number } => {
+  const evidences = products.map(buildClaimEvidence);
+  const evidence: ClaimEvidence = {
+    text: evidences.map(e => e.text).join(' '),
+    numbers: new Set(evidences.flatMap(e => Array.from(e.numbers))),
+    reviewCount: 0, // No single listing backs a review count in free text
+  };
+
+  const flagged = section.paragraphs
+    .flatMap(p => splitSentences(p))
+    .filter(sentence => lintSentence(sentence, evidence).length > 0).length;
+  const paragraphs = section.paragraphs.map(p => fixClaimText(p, evidence, 'soften')).filter(Boolean);
+  return { section: { ...section, paragraphs }, flagged };
+};
+
+/**
+ * Looks up a suggested product so it can be staged in the editor. Products no
+ * source can resolve to an ASIN are rejected rather than staged without a link.
+ */
+export const resolveGapProduct = async (
+  gap: ContentGapProduct,
+  category: string,
+  config: AppConfig,
+  language?: ContentLanguage
+): Promise<ProductDetails> => {
+  const query = gap.brand && !gap.productName.toLowerCase().startsWith(gap.brand.toLowerCase())
+    ? `${gap.brand} ${gap.productName}`
+    : gap.productName;
+  const amz = await searchAmazonProduct(query, config);
+  if (!amz.asin) {
+    throw new ValidationError(`"${query}" not found on Amazon`, 'asin');
   }
+
+  return {
+    ...createProductFromLookup(amz, {
+      title: query,
+      brand: gap.brand,
+      category: category || 'Product',
+      verdict: gap.reason,
+      language,
+      marketplace: resolveMarketplace(config).id,
+    }),
+    lookupQuery: query,
+  };
 };
 
 // ============================================================================
@@ -1899,40 +5667,701 @@ export const pushToWordPress = async (
   }
 };
 
+/**
+ * The post's stored (unrendered) content, exactly as last pushed. Needs the
+ * application password; tries direct, then the proxy.
+ */
+export const fetchPostRawContent = async (config: AppConfig, postId: number): Promise<string> => {
+  const url = (config.wpUrl || '').replace(/\/$/, '');
+  const endpoint = `${url}/wp-json/wp/v2/posts/${postId}?context=edit&_fields=id,content`;
+  const headers = { 'Authorization': `Basic ${btoa(`${config.wpUser || ''}:${config.wpAppPassword || ''}`)}` };
+
+  const attempt = async (targetUrl: string): Promise<string> => {
+    const response = await fetch(targetUrl, { headers, signal: AbortSignal.timeout(CONFIG.NETWORK.DEFAULT_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new WordPressAPIError(`Raw content fetch failed [${response.status}]`, endpoint, response.status);
+    }
+    const data = await response.json();
+    if (typeof data?.content?.raw !== 'string') {
+      throw new WordPressAPIError('Response has no raw content; check the application password', endpoint);
+    }
+    return data.content.raw;
+  };
+
+  try {
+    return await attempt(endpoint);
+  } catch (directError: any) {
+    console.warn(`[fetchPostRawContent] Direct failed: ${directError.message}, trying proxy...`);
+    return attempt(`https://corsproxy.io/?${encodeURIComponent(endpoint)}`);
+  }
+};
+
+// ============================================================================
+// PRICE REFRESH - Re-Query Placed Products & Re-Push Changed Boxes
+// ============================================================================
+
+const PLACEMENT_LEDGER_KEY = 'amzwp_placement_ledger_v1';
+const REFRESH_REPORT_KEY = 'amzwp_refresh_report_v1';
+
+const REFRESHED_FIELDS: RefreshedField[] = ['price', 'rating', 'reviewCount', 'availability'];
+
+/**
+ * Everything pushed by the editor, keyed by post id.
+ */
+export const getPlacementLedger = (): Record<string, PlacementRecord> => {
+  try {
+    const raw = localStorage.getItem(PLACEMENT_LEDGER_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const savePlacementLedger = (ledger: Record<string, PlacementRecord>): void => {
+  try {
+    localStorage.setItem(PLACEMENT_LEDGER_KEY, JSON.stringify(ledger));
+  } catch (e) {
+    console.warn('[PriceRefresh] Failed to persist placement ledger:', e);
+  }
+};
+
+/**
+ * Updates the post's ledger entry after a push. Boxes placed in earlier pushes
+ * reload into the editor as plain HTML, so previously recorded blocks are kept
+ * for as long as their markup (as recorded, or re-rendered from the pushed
+ * products after a swap) is still in the pushed content. The entry is dropped
+ * once no recorded box remains.
+ */
+export const recordPlacements = (record: PlacementRecord, pushedHtml: string, config: AppConfig): void => {
+  const ledger = getPlacementLedger();
+  const previous = ledger[record.postId];
+  const productIds = new Set(record.products.map(p => p.id));
+  const products = [...(previous?.products || []).filter(p => !productIds.has(p.id)), ...record.products];
+
+  const newHtml = new Set(record.blocks.map(b => b.html));
+  const keptBlocks: PlacedBlock[] = [];
+  (previous?.blocks || []).forEach(block => {
+    const html = block.html && pushedHtml.includes(block.html) ? block.html : renderPlacedBlock(block, products, config);
+    if (html && pushedHtml.includes(html) && !newHtml.has(html)) keptBlocks.push({ ...block, html });
+  });
+
+  const blocks = [...keptBlocks, ...record.blocks];
+  const placedIds = new Set(blocks.flatMap(b => b.productIds));
+  if (blocks.length === 0) delete ledger[record.postId];
+  else ledger[record.postId] = { ...record, blocks, products: products.filter(p => placedIds.has(p.id)) };
+  savePlacementLedger(ledger);
+};
+
+export const getLastRefreshReport = (): PriceRefreshReport | null => {
+  try {
+    const raw = localStorage.getItem(REFRESH_REPORT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * True when a scheduled refresh is configured, there is something to refresh
+ * and the last run is older than the interval.
+ */
+export const isPriceRefreshDue = (config: AppConfig, now = Date.now()): boolean => {
+  const hours = config.priceRefreshHours || 0;
+  if (hours <= 0 || Object.keys(getPlacementLedger()).length === 0) return false;
+  const last = getLastRefreshReport();
+  return !last || now - last.finishedAt >= hours * 60 * 60 * 1000;
+};
+
+/**
+ * HTML for a placed block, rendered from the given product set.
+ */
+export const renderPlacedBlock = (
+  block: Omit<PlacedBlock, 'html'>,
+  products: ProductDetails[],
+  config: AppConfig
+): string => {
+  if (block.kind === 'comparison' && block.comparison) {
+    return generateComparisonTableHtml(block.comparison, products, config.amazonTag, config.geoTargets);
+  }
+  if (block.kind === 'carousel' && block.carousel) {
+    return generateCarouselHtml(block.carousel, products, config.amazonTag, config.geoTargets);
+  }
+  const product = products.find(p => p.id === block.productIds[0]);
+  return product ? generateProductBoxHtml(product, config.amazonTag, product.deploymentMode, config.geoTargets) : '';
+};
+
+const formatRefreshedValue = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value);
+
+let activeRefresh: Promise<PriceRefreshReport> | null = null;
+
+/**
+ * Re-queries every product placed by the editor, diffs price, rating, review
+ * count and availability, and pushes only the blocks whose rendered HTML
+ * changed. Every change, stock status included, is kept in the ledger. Blocks edited in WordPress since the push are
+ * reported and left alone. Concurrent calls share one run.
+ */
+export const refreshPlacedProducts = (
+  config: AppConfig,
+  onProgress?: (done: number, total: number) => void
+): Promise<PriceRefreshReport> => {
+  if (!activeRefresh) {
+    activeRefresh = runPriceRefresh(config, onProgress).finally(() => {
+      activeRefresh = null;
+    });
+  }
+  return activeRefresh;
+};
+
+const runPriceRefresh = async (
+  config: AppConfig,
+  onProgress?: (done: number, total: number) => void
+): Promise<PriceRefreshReport> => {
+  const report: PriceRefreshReport = {
+    startedAt: Date.now(),
+    finishedAt: 0,
+    postsChecked: 0,
+    postsUpdated: 0,
+    boxesUpdated: 0,
+    changes: [],
+    issues: [],
+  };
+  const records = Object.values(getPlacementLedger());
+  const lookups = new Map<string, Partial<ProductDetails> | null>(); // One lookup per ASIN per run
+
+  if (!hasAmazonLookup(config)) {
+    throw new ValidationError('Price refresh needs PA-API keys, a SerpApi key or a product catalog', 'productSources');
+  }
+
+  for (const record of records) {
+    const issue = (message: string) => report.issues.push({ postId: record.postId, postTitle: record.title, message });
+    report.postsChecked++;
+
+    // Re-query and diff every product with an ASIN, one at a time for API rate limits
+    const changedIds = new Set<string>();
+    const products: ProductDetails[] = [];
+    for (const product of record.products) {
+      const asin = (product.asin || '').toUpperCase();
+      if (!asin) {
+        products.push(product);
+        continue;
+      }
+
+      if (!lookups.has(asin)) {
+        try {
+          const fresh = await searchAmazonProduct(asin, config, { fresh: true });
+          lookups.set(asin, fresh.asin?.toUpperCase() === asin ? fresh : null);
+        } catch (error: any) {
+          console.warn(`[PriceRefresh] Lookup failed for ${asin}:`, error.message);
+          lookups.set(asin, null);
+        }
+      }
+      const fresh = lookups.get(asin);
+      if (!fresh) {
+        issue(`No data returned for ${asin} (${product.title})`);
+        products.push(product);
+        continue;
+      }
+
+      const updated = { ...product };
+      for (const field of REFRESHED_FIELDS) {
+        const after = fresh[field];
+        // Placeholder values from a degraded lookup never overwrite real data
+        if (after === undefined || after === null || after === '' || after === 'Check Price') continue;
+        if (formatRefreshedValue(after) === formatRefreshedValue(product[field])) continue;
+        report.changes.push({
+          postId: record.postId,
+          postTitle: record.title,
+          asin,
+          productTitle: product.title,
+          field,
+          before: formatRefreshedValue(product[field]),
+          after: formatRefreshedValue(after),
+        });
+        assignField(updated, field, after);
+        changedIds.add(product.id);
+      }
+      // Not rendered, but the dead listing check reads it from the ledger
+      if (fresh.stockStatus && fresh.stockStatus !== product.stockStatus) {
+        updated.stockStatus = fresh.stockStatus;
+        changedIds.add(product.id);
+      }
+      products.push(updated);
+    }
+
+    if (changedIds.size > 0) {
+      // Only blocks whose rendered HTML differs are re-pushed; an availability change alone renders the same box
+      const rerendered = new Map<PlacedBlock, string>();
+      record.blocks.forEach(block => {
+        if (!block.productIds.some(id => changedIds.has(id))) return;
+        const html = renderPlacedBlock(block, products, config);
+        if (html && html !== block.html) rerendered.set(block, html);
+      });
+
+      try {
+        let blocks = record.blocks;
+        let replaced = 0;
+        if (rerendered.size > 0) {
+          let content = await fetchPostRawContent(config, record.postId);
+          blocks = record.blocks.map(block => {
+            const html = rerendered.get(block);
+            if (html === undefined) return block;
+            const at = content.indexOf(block.html);
+            if (at === -1) {
+              issue(`A ${block.kind} block was edited in WordPress since the push; left unchanged`);
+              return block;
+            }
+            content = content.slice(0, at) + html + content.slice(at + block.html.length);
+            replaced++;
+            return { ...block, html };
+          });
+          if (replaced > 0) await pushToWordPress(config, record.postId, content);
+        }
+
+        // Re-read so a push from the editor during this run is not overwritten
+        const latest = getPlacementLedger();
+        if (latest[record.postId]?.pushedAt === record.pushedAt) {
+          latest[record.postId] = { ...record, products, blocks, refreshedAt: Date.now() };
+          savePlacementLedger(latest);
+        }
+        if (replaced > 0) {
+          report.postsUpdated++;
+          report.boxesUpdated += replaced;
+        }
+      } catch (error: any) {
+        issue(`Update failed: ${error.message}`);
+      }
+    }
+
+    onProgress?.(report.postsChecked, records.length);
+  }
+
+  report.finishedAt = Date.now();
+  try {
+    localStorage.setItem(REFRESH_REPORT_KEY, JSON.stringify(report));
+  } catch (e) {
+    console.warn('[PriceRefresh] Failed to persist report:', e);
+  }
+  console.log(`[PriceRefresh] ${report.postsUpdated}/${report.postsChecked} posts updated, ${report.changes.length} field change(s)`);
+  return report;
+};
+
+// ============================================================================
+// DEAD LISTINGS - Unavailable Placed Products & Replacement Suggestions
+// ============================================================================
+
+const DEAD_LISTING_REPORT_KEY = 'amzwp_dead_listings_v1';
+
+const SERPAPI_NO_RESULTS_REGEX = /hasn't returned any results|no results/i;
+
+// Replacements are searched by category; products without one fall back to their title
+const replacementQuery = (product: ProductDetails): string =>
+  product.category && product.category !== 'Product' ? product.category : product.title;
+
+// Neutral verdict naming the listing; the dead product's verdict described a different product
+const replacementVerdict = (product: ProductDetails): string => {
+  const name = product.title.split(/,|\s[-–|]\s/)[0].trim();
+  const brand = product.brand && !name.toLowerCase().startsWith(product.brand.toLowerCase()) ? product.brand : '';
+  return getBoxLocale(product.language).fallbackVerdict(brand, name).replace(/\s{2,}/g, ' ').trim();
+};
+
+/**
+ * Stock status of each ASIN in the site's store. ASINs the store rejects as
+ * unknown are 'discontinued'; ASINs that could not be checked are omitted.
+ */
+export const checkListingStatus = async (asins: string[], config: AppConfig): Promise<Map<string, StockStatus>> => {
+  const marketplace = resolveMarketplace(config);
+  const unique = Array.from(new Set(asins.map(a => a.toUpperCase()).filter(a => ASIN_REGEX.test(a))));
+  const statuses = new Map<string, StockStatus>();
+
+  const paapi = getPAAPICredentials(config, marketplace);
+  if (paapi) {
+    for (let i = 0; i < unique.length; i += 10) {
+      const batch = unique.slice(i, i + 10);
+      try {
+        // Only item-level rejections mean delisted; a failed request leaves the batch unchecked
+        const { items, rejected } = await paapiGetItemsWithRejections(batch, paapi);
+        batch.forEach(asin => {
+          const item = items.find(it => it.asin?.toUpperCase() === asin);
+          if (item?.stockStatus) statuses.set(asin, item.stockStatus);
+          else if (!item && rejected.includes(asin)) statuses.set(asin, 'discontinued');
+        });
+      } catch (error) {
+        console.warn('[DeadListings] PA-API status check failed:', error);
+      }
+    }
+  }
+
+  if (config.serpApiKey) {
+    for (const asin of unique.filter(a => !statuses.has(a))) {
+      try {
+        const url = `https://serpapi.com/search.json?engine=amazon_product&amazon_domain=${marketplace.domain}&asin=${asin}&api_key=${config.serpApiKey}`;
+        const data = JSON.parse(await fetchWithProxy(url));
+        const product = data?.product_results;
+        if (product?.asin || product?.title) {
+          statuses.set(asin, classifyAvailability(product.stock || product.availability) ?? 'in_stock');
+        } else if (SERPAPI_NO_RESULTS_REGEX.test(data?.error || '')) {
+          statuses.set(asin, 'discontinued');
+        } else if (data?.error) {
+          console.warn(`[DeadListings] SerpApi status check failed for ${asin}:`, data.error);
+        }
+      } catch (error) {
+        console.warn(`[DeadListings] SerpApi status check failed for ${asin}:`, error);
+      }
+    }
+  }
+
+  return statuses;
+};
+
+/**
+ * Purchasable products in the same category as `product`, excluding the
+ * given ASINs. Ready to swap in with applyReplacement.
+ */
+export const findReplacementProducts = async (
+  product: ProductDetails,
+  config: AppConfig,
+  excludeAsins: string[] = [],
+  limit = 3
+): Promise<ProductDetails[]> => {
+  const marketplace = resolveMarketplace(config);
+  const query = replacementQuery(product);
+  const exclude = new Set([product.asin, ...excludeAsins].map(a => (a || '').toUpperCase()));
+  let candidates: Partial<ProductDetails>[] = [];
+
+  const paapi = getPAAPICredentials(config, marketplace);
+  if (paapi) {
+    try {
+      candidates = (await paapiSearchItems(query, paapi, 10)).map(item => ({ ...item, marketplace: marketplace.id }));
+    } catch (error) {
+      console.warn(`[DeadListings] PA-API replacement search failed for "${query}", trying SerpApi:`, error);
+    }
+  }
+
+  if (candidates.length === 0 && config.serpApiKey) {
+    try {
+      const url = `https://serpapi.com/search.json?engine=amazon&amazon_domain=${marketplace.domain}&k=${encodeURIComponent(query)}&api_key=${config.serpApiKey}`;
+      const data = JSON.parse(await fetchWithProxy(url));
+      candidates = (data?.organic_results || []).map((r: any): Partial<ProductDetails> => ({
+        asin: r.asin,
+        title: r.title,
+        price: formatMarketplacePrice(r.price || r.extracted_price, marketplace) || 'Check Price',
+        imageUrl: r.thumbnail,
+        rating: r.rating,
+        reviewCount: r.reviews,
+        prime: !!r.prime,
+        dataSource: 'serpapi',
+        marketplace: marketplace.id,
+      }));
+    } catch (error) {
+      console.warn(`[DeadListings] SerpApi replacement search failed for "${query}":`, error);
+    }
+  }
+
+  return candidates
+    .filter(c => c.asin && !exclude.has(c.asin.toUpperCase()))
+    .filter(c => c.stockStatus !== 'out_of_stock' && c.stockStatus !== 'discontinued')
+    .slice(0, limit)
+    .map(c => {
+      const replacement = createProductFromLookup(c, {
+        title: c.title || query,
+        brand: c.brand || '',
+        category: product.category,
+        verdict: '',
+        language: product.language,
+        marketplace: marketplace.id,
+      });
+      return { ...replacement, verdict: replacementVerdict(replacement) };
+    });
+};
+
+/**
+ * Box copy for a replacement about to be swapped in. With an AI key the
+ * enrichment pass fills pros, FAQs and evidence claims from the post; without
+ * one (or if it fails) the box shows the neutral verdict only.
+ */
+export const prepareReplacement = async (
+  replacement: ProductDetails,
+  postHtml: string,
+  config: AppConfig
+): Promise<ProductDetails> => {
+  const prepared: ProductDetails = { ...replacement, verdict: replacement.verdict || replacementVerdict(replacement) };
+  const apiKey = getAIApiKey(config);
+  if (!apiKey) return prepared;
+
+  try {
+    const enrichment = await enrichProductWithAI(prepared, htmlToPlainText(postHtml), config, apiKey, prepared.language);
+    return { ...prepared, ...enrichment };
+  } catch (error: any) {
+    console.warn(`[DeadListings] Enrichment failed for replacement "${prepared.title}":`, error.message);
+    return prepared;
+  }
+};
+
+/**
+ * The replacement's product data in the dead product's slot: id, placement
+ * and box style are kept so existing nodes and tables pick it up.
+ */
+export const applyReplacement = (dead: ProductDetails, replacement: ProductDetails): ProductDetails => ({
+  ...replacement,
+  id: dead.id,
+  insertionIndex: dead.insertionIndex,
+  sourceBlockIndex: dead.sourceBlockIndex,
+  recommendedBlockIndex: dead.recommendedBlockIndex,
+  role: dead.role,
+  alternativeFor: dead.alternativeFor,
+  language: dead.language,
+  deploymentMode: dead.deploymentMode,
+});
+
+export const getDeadListingReport = (): DeadListingReport | null => {
+  try {
+    const raw = localStorage.getItem(DEAD_LISTING_REPORT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveDeadListingReport = (report: DeadListingReport): void => {
+  try {
+    localStorage.setItem(DEAD_LISTING_REPORT_KEY, JSON.stringify(report));
+  } catch (e) {
+    console.warn('[DeadListings] Failed to persist report:', e);
+  }
+};
+
+/**
+ * Drops a listing from the saved report once it has been swapped or dismissed.
+ */
+export const resolveDeadListing = (postId: number, productId: string): void => {
+  const report = getDeadListingReport();
+  if (!report) return;
+  saveDeadListingReport({
+    ...report,
+    listings: report.listings.filter(l => !(l.postId === postId && l.product.id === productId)),
+  });
+};
+
+/**
+ * Checks every product placed by the editor and flags those that are out of
+ * stock or no longer listed, each with same-category replacements. One
+ * replacement search per category per run.
+ */
+export const checkPlacedListings = async (
+  config: AppConfig,
+  onProgress?: (done: number, total: number) => void
+): Promise<DeadListingReport> => {
+  // Only live store lookups can tell whether a listing still exists
+  if (!getPAAPICredentials(config) && !config.serpApiKey) {
+    throw new ValidationError('Listing check needs PA-API keys or a SerpApi key', 'serpApiKey');
+  }
+
+  const records = Object.values(getPlacementLedger());
+  const asins = records.flatMap(r => r.products.map(p => p.asin).filter(Boolean));
+  const statuses = await checkListingStatus(asins, config);
+  const replacementsByQuery = new Map<string, ProductDetails[]>();
+  const listings: DeadListing[] = [];
+
+  for (const [i, record] of records.entries()) {
+    const postAsins = record.products.map(p => p.asin);
+    for (const product of record.products) {
+      const status = statuses.get((product.asin || '').toUpperCase());
+      if (!status || status === 'in_stock') continue;
+
+      const query = replacementQuery(product);
+      if (!replacementsByQuery.has(query)) {
+        replacementsByQuery.set(query, await findReplacementProducts(product, config, [], 6));
+      }
+      // Fresh ids per listing so two posts never share a product id
+      const replacements = replacementsByQuery.get(query)!
+        .filter(r => !postAsins.includes(r.asin) && (statuses.get(r.asin.toUpperCase()) ?? 'in_stock') === 'in_stock')
+        .slice(0, 3)
+        .map(r => ({ ...r, id: crypto.randomUUID?.() || `${Date.now()}-${Math.random().toString(36).substr(2, 9)}` }));
+
+      listings.push({ postId: record.postId, postTitle: record.title, product, status, replacements });
+    }
+    onProgress?.(i + 1, records.length);
+  }
+
+  const report: DeadListingReport = {
+    checkedAt: Date.now(),
+    postsChecked: records.length,
+    productsChecked: statuses.size,
+    listings,
+  };
+  saveDeadListingReport(report);
+  console.log(`[DeadListings] ${listings.length} dead listing(s) across ${records.length} posts`);
+  return report;
+};
+
 // ============================================================================
 // POST PRIORITY CALCULATION
 // ============================================================================
 
+const AFFILIATE_MARKER_REGEX = /amazon\.(?:co\.|com\.)?[a-z]{2,3}\/dp\/|amzn\.(?:to|eu|asia)\/|tag=|s-box|t-link-box|auth-v|tact-v/i;
+
+const HEURISTIC_OPPORTUNITY_SCORES: Record<PostType, number> = {
+  'gift-guide': 80,
+  listicle: 75,
+  review: 70,
+  howto: 45,
+  info: 20,
+  unknown: 10,
+};
+
 export const calculatePostPriority = (
   title: string, 
   html: string
-): { priority: PostPriority; type: PostType; status: BlogPost['monetizationStatus'] } => {
+): {
+  priority: PostPriority;
+  type: PostType;
+  status: BlogPost['monetizationStatus'];
+  intent: CommercialIntent;
+  score: number;
+} => {
   const t = (title || '').toLowerCase();
-  const hasAffiliate = /amazon\.com\/dp\/|amzn\.to\/|tag=|s-box|t-link-box|auth-v|tact-v/i.test(html);
+  const hasAffiliate = AFFILIATE_MARKER_REGEX.test(html);
 
   // Determine post type
   let type: PostType = 'info';
-  if (t.includes('review') || t.includes(' vs ') || t.includes('compare') || t.includes('comparison')) {
+  if (t.includes('gift') || t.includes('gifts for')) {
+    type = 'gift-guide';
+  } else if (t.includes('review') || t.includes(' vs ') || t.includes('compare') || t.includes('comparison')) {
     type = 'review';
   } else if (t.includes('best ') || t.includes('top ') || t.includes(' list')) {
     type = 'listicle';
+  } else if (t.startsWith('how to') || t.includes(' how to ') || t.includes('guide to') || t.includes('tutorial')) {
+    type = 'howto';
   }
 
   // Determine priority
   let priority: PostPriority = 'low';
-  if (type === 'review' || type === 'listicle') {
+  if (type === 'review' || type === 'listicle' || type === 'gift-guide') {
     priority = hasAffiliate ? 'medium' : 'critical';
   } else if (!hasAffiliate && html.length > 1000) {
     priority = 'high';
   }
 
+  const intent: CommercialIntent = /\b(buy|deal|deals|price|discount|coupon)\b/.test(t)
+    ? 'transactional'
+    : type === 'howto' || type === 'info' ? 'informational' : 'commercial';
+
+  const baseScore = HEURISTIC_OPPORTUNITY_SCORES[type];
+  const score = Math.round(hasAffiliate ? baseScore * 0.4 : baseScore + (html.length > 1000 ? 5 : 0));
+
   return {
     priority,
     type,
     status: hasAffiliate ? 'monetized' : 'opportunity',
+    intent,
+    score,
+  };
+};
+
+// ============================================================================
+// POST CLASSIFICATION - AI Post Type, Intent & Opportunity Scoring
+// ============================================================================
+
+export interface PostClassification {
+  postType: PostType;
+  commercialIntent: CommercialIntent;
+  productCategories: string[];
+  opportunityScore: number;
+}
+
+const CLASSIFIABLE_POST_TYPES: PostType[] = ['review', 'listicle', 'howto', 'gift-guide', 'info'];
+const COMMERCIAL_INTENTS: CommercialIntent[] = ['transactional', 'commercial', 'informational', 'navigational'];
+
+export const validatePostClassification = (raw: unknown): SchemaResult<PostClassification> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, errors: ['root: expected a JSON object'] };
+  }
+
+  const r = raw as Record<string, unknown>;
+  const postType = CLASSIFIABLE_POST_TYPES.find(t => t === r.postType);
+  const commercialIntent = COMMERCIAL_INTENTS.find(i => i === r.commercialIntent);
+  const errors: string[] = [];
+  if (!postType) {
+    errors.push(`postType: must be one of ${CLASSIFIABLE_POST_TYPES.join(', ')}`);
+  }
+  if (!commercialIntent) {
+    errors.push(`commercialIntent: must be one of ${COMMERCIAL_INTENTS.join(', ')}`);
+  }
+  if (!Array.isArray(r.productCategories)) {
+    errors.push('productCategories: expected an array of strings');
+  }
+  if (typeof r.opportunityScore !== 'number' || !Number.isFinite(r.opportunityScore) || r.opportunityScore < 0 || r.opportunityScore > 100) {
+    errors.push('opportunityScore: must be a number between 0 and 100');
+  }
+
+  if (errors.length > 0 || !postType || !commercialIntent || typeof r.opportunityScore !== 'number') {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      postType,
+      commercialIntent,
+      productCategories: toCleanStringList(r.productCategories, 5),
+      opportunityScore: Math.round(r.opportunityScore),
+    },
   };
 };
 
+/**
+ * Maps an opportunity score onto the priority buckets the scanner tabs use.
+ */
+export const priorityFromOpportunityScore = (score: number): PostPriority => {
+  if (score >= 70) return 'critical';
+  if (score >= 45) return 'high';
+  if (score >= 20) return 'medium';
+  return 'low';
+};
+
+/**
+ * Classifies a post from its title and opening text. The score accounts for
+ * affiliate links already present, so fully monetized posts rank low.
+ */
+export const classifyPostWithAI = async (
+  title: string,
+  html: string,
+  config: AppConfig,
+  apiKey: string
+): Promise<PostClassification> => {
+  const systemPrompt = `You are an affiliate SEO strategist auditing blog posts for Amazon monetization potential.
+
+postType:
+- review: evaluates one product or compares a few head to head
+- listicle: ranked or "best X" roundup of products
+- howto: step-by-step guide or tutorial
+- gift-guide: gift ideas for a person, occasion or budget
+- info: news, opinion or general information
+
+commercialIntent: transactional (ready to buy), commercial (researching purchases), informational (learning), navigational (looking for a brand or site).
+
+productCategories: up to 5 short Amazon-style categories a reader of this post could buy from (e.g. "Espresso Machines").
+
+opportunityScore: 0-100. High when readers are likely to buy products the post could recommend but does not yet link. Low when the post already carries affiliate links or has nothing to sell.
+
+Return JSON: {"postType": "howto", "commercialIntent": "informational", "productCategories": ["..."], "opportunityScore": 55}`;
+
+  const hasAffiliate = AFFILIATE_MARKER_REGEX.test(html);
+  const userPrompt = `TITLE: "${title}"
+EXISTING AFFILIATE LINKS: ${hasAffiliate ? 'yes' : 'no'}
+
+CONTENT:
+${htmlToPlainText(html).substring(0, CONFIG.AI.CLASSIFICATION_CONTEXT_CHARS)}`;
+
+  return generateValidatedAIContent(
+    config,
+    apiKey,
+    { systemPrompt, userPrompt, purpose: 'classification' },
+    validatePostClassification
+  );
+};
+
 // ============================================================================
 // CONNECTION TESTING
 // ============================================================================